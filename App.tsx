@@ -1,10 +1,44 @@
 import 'react-native-reanimated';
 import 'react-native-gesture-handler';
+import { useEffect, useState } from 'react';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
-import { StyleSheet } from 'react-native';
+import { AppState, StyleSheet } from 'react-native';
 import { HomeScreen } from './src/screens/HomeScreen';
+import { matchStore, outboxStore, ratingHistoryStore, ratingStore, sessionStore } from './src/store';
 
 export default function App() {
+  const [isHydrated, setIsHydrated] = useState(matchStore.isHydrated());
+
+  // Load stored matches, ratings and any unfinished session before anything reads the stores.
+  // Each store falls back to empty on bad data, so a failure here still shows the app.
+  useEffect(() => {
+    Promise.all([
+      matchStore.hydrate(),
+      ratingStore.hydrate(),
+      ratingHistoryStore.hydrate(),
+      outboxStore.hydrate(),
+      sessionStore.hydrate(),
+    ])
+      .catch(error => console.warn('[App] Failed to load stored data:', error))
+      .finally(() => setIsHydrated(true));
+  }, []);
+
+  // Close a doubles session left idle while the app was in the background
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') sessionStore.closeIfIdle();
+    });
+    return () => subscription.remove();
+  }, []);
+
+  // Send queued match writes now and whenever the connection returns
+  useEffect(() => {
+    if (!isHydrated) return;
+    return outboxStore.start();
+  }, [isHydrated]);
+
+  if (!isHydrated) return null;
+
   return (
     <GestureHandlerRootView style={styles.container}>
       <HomeScreen />
@@ -8,6 +8,8 @@ import {
   Image,
   RefreshControl,
   Dimensions,
+  TextInput,
+  Alert,
 } from 'react-native';
 import Animated, {
   useAnimatedStyle,
@@ -26,10 +28,17 @@ import Animated, {
 } from 'react-native-reanimated';
 import { Gesture, GestureDetector } from 'react-native-gesture-handler';
 import * as Haptics from 'expo-haptics';
-import { X, Check, Flag, Clock, Trophy, Swords, ChevronDown, ChevronUp, MapPin, Calendar, AlertTriangle } from 'lucide-react-native';
+import * as ImagePicker from 'expo-image-picker';
+import { X, Check, Flag, Clock, Trophy, Swords, ChevronDown, ChevronUp, MapPin, Calendar, AlertTriangle, Cloud, CloudOff, RefreshCw, Camera, Pencil } from 'lucide-react-native';
 import { colors, spacing, borderRadius } from '../theme/colors';
-import { useMatchStore, Match } from '../store';
-import { getNewElo } from '../utils/rating';
+import { CONTESTS } from '../constants';
+import { useMatchStore, useOutboxStore, canDisputeMatch, getMatchSubmitterId, getMatchConfirmationPolicy, getMatchGameFormat, Match, MatchGame, MatchSyncState, DisputeReason } from '../store';
+import { describeConfirmationPolicy } from '../utils';
+import type { ContestQuota } from '../utils';
+import { DisputePanel } from './DisputePanel';
+import { ConflictReviewPanel } from './ConflictReviewPanel';
+import { LogMatchSheet } from './LogMatchSheet';
+import { eloChangeToRatingChange, getNewElo } from '../utils/rating';
 
 const AnimatedPressable = Animated.createAnimatedComponent(Pressable);
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
@@ -64,8 +73,25 @@ interface ActivityMatchCardProps {
   index: number;
   isHighlighted?: boolean;
   userElo?: number;
+  syncState?: MatchSyncState;
+  // Why the server rejected this match's changes, when syncState is 'failed'
+  syncError?: string;
+  onRetrySync?: () => void;
+  onProposeCorrection?: (games: MatchGame[]) => void;
+  onConfirmCorrection?: () => void;
+  onEdit?: () => void;
+  // The other submission when this match's scores conflict with it
+  conflictWith?: Match;
+  onResolveConflict?: (keepMatchId: string) => void;
 }
 
+const SYNC_LABELS: Record<MatchSyncState, string> = {
+  local: 'Saved locally',
+  syncing: 'Syncing',
+  synced: 'Synced',
+  failed: 'Not accepted',
+};
+
 function ActivityMatchCard({
   match,
   onConfirm,
@@ -73,6 +99,14 @@ function ActivityMatchCard({
   index,
   isHighlighted,
   userElo = 1200,
+  syncState,
+  syncError,
+  onRetrySync = () => {},
+  onProposeCorrection = () => {},
+  onConfirmCorrection = () => {},
+  onEdit,
+  conflictWith,
+  onResolveConflict = () => {},
 }: ActivityMatchCardProps) {
   const [timeRemaining, setTimeRemaining] = useState('');
   const [isExpanded, setIsExpanded] = useState(false);
@@ -89,11 +123,11 @@ function ActivityMatchCard({
   const frontOpacity = useSharedValue(1);
   const backOpacity = useSharedValue(0);
 
-  // Calculate provisional rating change
+  // Use the applied rating change once confirmed, otherwise a provisional estimate
   const isWin = match.teamAWins > match.teamBWins;
   const avgOpponentElo = match.teamB[0]?.ratingBefore ?? 1200;
-  const newElo = getNewElo(userElo, avgOpponentElo, isWin);
-  const ratingDelta = ((newElo - userElo) / 1200 * 3.5).toFixed(1);
+  const eloChange = match.ratingDelta ?? getNewElo(userElo, avgOpponentElo, isWin) - userElo;
+  const ratingDelta = eloChangeToRatingChange(eloChange).toFixed(1);
   const ratingDeltaDisplay = parseFloat(ratingDelta) >= 0 ? `+${ratingDelta}` : ratingDelta;
 
   // Entrance animation
@@ -209,8 +243,15 @@ function ActivityMatchCard({
   };
 
   const scoreDisplay = `${match.teamAWins}–${match.teamBWins}`;
-  const needsConfirmation = match.status === 'pending' && !isConfirmed;
+  // Submitters fix their own typos by editing; everyone else confirms or contests
+  const isSubmitter = getMatchSubmitterId(match) === 'current-user';
+  // Conflicting submissions are settled by picking a score instead
+  const hasOpenConflict = match.conflict?.state === 'open';
+  const canEdit = match.status === 'pending' && isSubmitter && !!onEdit && !hasOpenConflict;
+  const needsConfirmation = match.status === 'pending' && !isConfirmed && !isSubmitter && !hasOpenConflict;
   const showAsConfirmed = match.status === 'confirmed' || isConfirmed;
+  // A confirmed result can still be contested (or corrected by its submitter) for a few days
+  const canContestConfirmed = match.status === 'confirmed' && canDisputeMatch(match);
 
   // Format timestamp
   const getTimeLabel = () => {
@@ -240,11 +281,23 @@ function ActivityMatchCard({
 
   // Get result badge config
   const getResultConfig = () => {
+    if (match.review?.state === 'pending') {
+      return { label: 'In review', color: '#F59E0B', bg: 'rgba(245, 158, 11, 0.12)' };
+    }
+    if (match.status === 'voided') {
+      return { label: 'Voided', color: colors.textMuted, bg: 'rgba(255, 255, 255, 0.06)' };
+    }
     if (showAsConfirmed) {
       return isWin
         ? { label: 'Victory', color: colors.accent, bg: 'rgba(57, 255, 20, 0.12)' }
         : { label: 'Defeat', color: colors.red, bg: 'rgba(239, 68, 68, 0.12)' };
     }
+    if (match.status === 'pending' && hasOpenConflict) {
+      return { label: 'Conflict', color: '#F59E0B', bg: 'rgba(245, 158, 11, 0.12)' };
+    }
+    if (match.status === 'pending' && match.escalatedAt) {
+      return { label: 'Escalated', color: '#F59E0B', bg: 'rgba(245, 158, 11, 0.12)' };
+    }
     if (match.status === 'pending') {
       return { label: 'Pending', color: '#F59E0B', bg: 'rgba(245, 158, 11, 0.12)' };
     }
@@ -256,6 +309,14 @@ function ActivityMatchCard({
 
   const resultConfig = getResultConfig();
 
+  // The server refused this match's changes: explain why and offer to send them again
+  const handleSyncFailurePress = () => {
+    Alert.alert('Not accepted by the server', syncError ?? 'The server rejected this change.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Try again', onPress: onRetrySync },
+    ]);
+  };
+
   // Card content component (reused for front and back)
   const CardContent = ({ isBack = false }: { isBack?: boolean }) => (
     <>
@@ -267,7 +328,31 @@ function ActivityMatchCard({
             {match.mode === 'singles' ? 'Singles' : 'Doubles'}
           </Text>
         </View>
-        <Text style={styles.timeLabel}>{getTimeLabel()}</Text>
+        <View style={styles.headerRight}>
+          {syncState && (
+            <Pressable
+              style={styles.syncRow}
+              disabled={syncState !== 'failed'}
+              onPress={handleSyncFailurePress}
+              hitSlop={8}
+            >
+              {syncState === 'local' && <CloudOff size={11} color="#F59E0B" />}
+              {syncState === 'syncing' && <RefreshCw size={11} color={colors.textMuted} />}
+              {syncState === 'synced' && <Cloud size={11} color={colors.textMuted} />}
+              {syncState === 'failed' && <AlertTriangle size={11} color={colors.red} />}
+              <Text
+                style={[
+                  styles.syncLabel,
+                  syncState === 'local' && styles.syncLabelLocal,
+                  syncState === 'failed' && styles.syncLabelFailed,
+                ]}
+              >
+                {SYNC_LABELS[syncState]}
+              </Text>
+            </Pressable>
+          )}
+          <Text style={styles.timeLabel}>{getTimeLabel()}</Text>
+        </View>
       </View>
 
       {/* Teams display */}
@@ -372,6 +457,14 @@ function ActivityMatchCard({
             <Calendar size={14} color={colors.textMuted} />
             <Text style={styles.detailText}>{getDateTime()}</Text>
           </View>
+          {match.status === 'pending' && (
+            <View style={styles.detailRow}>
+              <Check size={14} color={colors.textMuted} />
+              <Text style={styles.detailText}>
+                {describeConfirmationPolicy(getMatchConfirmationPolicy(match))}
+              </Text>
+            </View>
+          )}
 
           <View style={styles.scoresSection}>
             <Text style={styles.scoresTitle}>Game Scores</Text>
@@ -457,6 +550,61 @@ function ActivityMatchCard({
           </Pressable>
         </Animated.View>
       )}
+
+      {/* Late contest on a confirmed match */}
+      {canContestConfirmed && (
+        <Animated.View
+          style={styles.actionsRow}
+          entering={FadeInDown.delay(index * 80 + 200).duration(300)}
+        >
+          <Pressable
+            style={styles.contestButton}
+            onPress={() => {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              onContest();
+            }}
+          >
+            <Flag size={14} color={colors.textSecondary} />
+            <Text style={styles.contestButtonText}>Contest</Text>
+          </Pressable>
+        </Animated.View>
+      )}
+
+      {/* Edit scores on your own pending submission */}
+      {canEdit && (
+        <Animated.View
+          style={styles.actionsRow}
+          entering={FadeInDown.delay(index * 80 + 200).duration(300)}
+        >
+          <Pressable
+            style={styles.contestButton}
+            onPress={() => {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              onEdit?.();
+            }}
+          >
+            <Pencil size={14} color={colors.textSecondary} />
+            <Text style={styles.contestButtonText}>
+              Edit score{match.revisions?.length ? ` · edited ${match.revisions.length}x` : ''}
+            </Text>
+          </Pressable>
+        </Animated.View>
+      )}
+
+      {/* Both submissions side by side until one is kept */}
+      {hasOpenConflict && conflictWith && (
+        <ConflictReviewPanel match={match} otherMatch={conflictWith} onKeep={onResolveConflict} />
+      )}
+
+      {/* Dispute details (always shown while the dispute is open) */}
+      {match.dispute && (match.dispute.state === 'open' || isExpanded) && (
+        <DisputePanel
+          match={match}
+          currentUserId="current-user"
+          onProposeCorrection={onProposeCorrection}
+          onConfirmCorrection={onConfirmCorrection}
+        />
+      )}
     </Animated.View>
   );
 }
@@ -464,14 +612,21 @@ function ActivityMatchCard({
 // Premium contest confirmation sheet with weekly limit warning
 function ContestSheet({
   visible,
+  quota,
+  trustScore,
   onClose,
   onSubmit,
 }: {
   visible: boolean;
+  quota: ContestQuota;
+  trustScore: number;
   onClose: () => void;
-  onSubmit: (reason: string) => void;
+  onSubmit: (reason: DisputeReason, details: { notes?: string; photoUris: string[] }) => void;
 }) {
-  const [step, setStep] = useState<'confirm' | 'reason'>('confirm');
+  const [step, setStep] = useState<'confirm' | 'reason' | 'details'>('confirm');
+  const [selectedReason, setSelectedReason] = useState<DisputeReason | null>(null);
+  const [notes, setNotes] = useState('');
+  const [photoUris, setPhotoUris] = useState<string[]>([]);
   const translateY = useSharedValue(400);
   const opacity = useSharedValue(0);
   const warningScale = useSharedValue(0.9);
@@ -480,6 +635,9 @@ function ContestSheet({
   useEffect(() => {
     if (visible) {
       setStep('confirm');
+      setSelectedReason(null);
+      setNotes('');
+      setPhotoUris([]);
       translateY.value = withSpring(0, { damping: 28, stiffness: 300 });
       opacity.value = withTiming(1, { duration: 250 });
       warningScale.value = withDelay(200, withSpring(1, { damping: 15, stiffness: 200 }));
@@ -505,21 +663,52 @@ function ContestSheet({
     opacity: warningOpacity.value,
   }));
 
-  const reasons = [
+  const reasons: { id: DisputeReason; label: string }[] = [
     { id: 'wrong_score', label: 'Score is incorrect' },
     { id: 'wrong_players', label: 'Wrong players listed' },
     { id: 'did_not_play', label: "I didn't play this match" },
     { id: 'other', label: 'Other issue' },
   ];
 
+  const isBlocked = quota.remaining === 0;
+  const nextAvailableLabel = quota.nextAvailableAt
+    ? new Date(quota.nextAvailableAt).toLocaleDateString('en-US', { weekday: 'short', hour: 'numeric', minute: '2-digit' })
+    : null;
+
   const handleProceed = () => {
+    if (isBlocked) return;
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
     setStep('reason');
   };
 
-  const handleSelectReason = (reason: string) => {
+  const handleSelectReason = (reason: DisputeReason) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setSelectedReason(reason);
+    setStep('details');
+  };
+
+  const handleAddPhoto = async () => {
+    const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (status !== 'granted') {
+      Alert.alert('Permission needed', 'Photo library permission is required.');
+      return;
+    }
+
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ['images'],
+      quality: 0.7,
+    });
+
+    if (!result.canceled && result.assets[0]) {
+      Haptics.selectionAsync();
+      setPhotoUris(prev => [...prev, result.assets[0].uri]);
+    }
+  };
+
+  const handleSubmit = () => {
+    if (!selectedReason) return;
     Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
-    onSubmit(reason);
+    onSubmit(selectedReason, { notes, photoUris });
     setStep('confirm');
   };
 
@@ -554,7 +743,10 @@ function ContestSheet({
               <View style={contestStyles.warningItem}>
                 <View style={contestStyles.warningBullet} />
                 <Text style={contestStyles.warningText}>
-                  You can only contest <Text style={contestStyles.warningHighlight}>1 match per week</Text>
+                  You can only contest{' '}
+                  <Text style={contestStyles.warningHighlight}>
+                    {quota.limit} {quota.limit === 1 ? 'match' : 'matches'} per week
+                  </Text>
                 </Text>
               </View>
               <View style={contestStyles.warningItem}>
@@ -569,27 +761,41 @@ function ContestSheet({
                   The submitter will receive a <Text style={contestStyles.warningHighlight}>warning on their account</Text>
                 </Text>
               </View>
+              <View style={contestStyles.warningItem}>
+                <View style={contestStyles.warningBullet} />
+                <Text style={contestStyles.warningText}>
+                  If the original result is upheld, your <Text style={contestStyles.warningHighlight}>trust score drops</Text>
+                  {trustScore < CONTESTS.TRUST_START ? ` (now ${trustScore})` : ''}
+                </Text>
+              </View>
             </Animated.View>
 
             {/* Remaining contests indicator */}
-            <View style={contestStyles.remainingBadge}>
-              <Text style={contestStyles.remainingText}>1 contest remaining this week</Text>
+            <View style={[contestStyles.remainingBadge, isBlocked && contestStyles.remainingBadgeBlocked]}>
+              <Text style={[contestStyles.remainingText, isBlocked && contestStyles.remainingTextBlocked]}>
+                {isBlocked
+                  ? `No contests left this week${nextAvailableLabel ? ` · next one ${nextAvailableLabel}` : ''}`
+                  : `${quota.remaining} ${quota.remaining === 1 ? 'contest' : 'contests'} remaining this week`}
+              </Text>
             </View>
 
             {/* Actions */}
             <View style={contestStyles.confirmActions}>
               <Pressable
-                style={contestStyles.proceedButton}
+                style={[contestStyles.proceedButton, isBlocked && contestStyles.proceedButtonDisabled]}
                 onPress={handleProceed}
+                disabled={isBlocked}
               >
-                <Text style={contestStyles.proceedButtonText}>Yes, contest this match</Text>
+                <Text style={contestStyles.proceedButtonText}>
+                  {isBlocked ? 'Weekly contest limit reached' : 'Yes, contest this match'}
+                </Text>
               </Pressable>
               <Pressable style={contestStyles.cancelButton} onPress={handleClose}>
                 <Text style={contestStyles.cancelText}>Keep the match</Text>
               </Pressable>
             </View>
           </>
-        ) : (
+        ) : step === 'reason' ? (
           <>
             <Text style={contestStyles.reasonTitle}>What's the issue?</Text>
             <Text style={contestStyles.reasonSubtitle}>
@@ -617,6 +823,43 @@ function ContestSheet({
               <Text style={contestStyles.backText}>Go back</Text>
             </Pressable>
           </>
+        ) : (
+          <>
+            <Text style={contestStyles.reasonTitle}>Add details</Text>
+            <Text style={contestStyles.reasonSubtitle}>
+              {reasons.find(r => r.id === selectedReason)?.label} · optional
+            </Text>
+
+            <TextInput
+              style={contestStyles.notesInput}
+              value={notes}
+              onChangeText={setNotes}
+              placeholder="What actually happened?"
+              placeholderTextColor={colors.textMuted}
+              multiline
+              maxLength={500}
+            />
+
+            <View style={contestStyles.photoRow}>
+              {photoUris.map(uri => (
+                <Image key={uri} source={{ uri }} style={contestStyles.photoThumb} />
+              ))}
+              <Pressable style={contestStyles.addPhotoButton} onPress={handleAddPhoto}>
+                <Camera size={18} color={colors.textSecondary} />
+                <Text style={contestStyles.addPhotoText}>Photo</Text>
+              </Pressable>
+            </View>
+
+            <Pressable style={contestStyles.proceedButton} onPress={handleSubmit}>
+              <Text style={contestStyles.proceedButtonText}>Submit contest</Text>
+            </Pressable>
+            <Pressable
+              style={contestStyles.backButton}
+              onPress={() => setStep('reason')}
+            >
+              <Text style={contestStyles.backText}>Go back</Text>
+            </Pressable>
+          </>
         )}
       </Animated.View>
     </View>
@@ -719,6 +962,12 @@ const contestStyles = StyleSheet.create({
     fontSize: 13,
     fontWeight: '500',
   },
+  remainingBadgeBlocked: {
+    backgroundColor: 'rgba(239, 68, 68, 0.12)',
+  },
+  remainingTextBlocked: {
+    color: colors.red,
+  },
   confirmActions: {
     gap: spacing.sm,
   },
@@ -733,6 +982,9 @@ const contestStyles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  proceedButtonDisabled: {
+    opacity: 0.4,
+  },
   cancelButton: {
     paddingVertical: spacing.md,
     alignItems: 'center',
@@ -776,6 +1028,45 @@ const contestStyles = StyleSheet.create({
     fontSize: 15,
     fontWeight: '500',
   },
+  notesInput: {
+    backgroundColor: colors.cardSecondary,
+    borderRadius: borderRadius.lg,
+    borderWidth: 1,
+    borderColor: colors.borderLight,
+    color: colors.white,
+    fontSize: 15,
+    padding: spacing.lg,
+    minHeight: 96,
+    textAlignVertical: 'top',
+    marginBottom: spacing.md,
+  },
+  photoRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+    marginBottom: spacing.xl,
+  },
+  photoThumb: {
+    width: 56,
+    height: 56,
+    borderRadius: borderRadius.md,
+  },
+  addPhotoButton: {
+    width: 56,
+    height: 56,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.borderLight,
+    borderStyle: 'dashed',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 2,
+  },
+  addPhotoText: {
+    color: colors.textMuted,
+    fontSize: 10,
+    fontWeight: '500',
+  },
 });
 
 // Main Activity Screen component
@@ -788,6 +1079,7 @@ export function ActivityScreen({
 }: ActivityScreenProps) {
   const [refreshing, setRefreshing] = useState(false);
   const [contestMatchId, setContestMatchId] = useState<string | null>(null);
+  const [editMatchId, setEditMatchId] = useState<string | null>(null);
 
   // Animation values for screen entrance
   const screenOpacity = useSharedValue(0);
@@ -805,11 +1097,19 @@ export function ActivityScreen({
     confirmedMatches,
     disputedMatches,
     expiredMatches,
+    voidedMatches,
     confirmMatch,
+    amendMatch,
     disputeMatch,
+    proposeCorrection,
+    confirmCorrection,
+    resolveConflict,
+    contestQuota,
+    trustScore,
     checkExpiredMatches,
     seedMockMatches,
   } = useMatchStore();
+  const { getSyncState, getFailure, retryFailed, flush } = useOutboxStore();
 
   // Seed mock data on mount for testing
   useEffect(() => {
@@ -838,8 +1138,9 @@ export function ActivityScreen({
     setRefreshing(true);
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     checkExpiredMatches();
+    flush();
     setTimeout(() => setRefreshing(false), 500);
-  }, [checkExpiredMatches]);
+  }, [checkExpiredMatches, flush]);
 
   const handleConfirm = (matchId: string) => {
     confirmMatch(matchId, 'current-user');
@@ -849,11 +1150,31 @@ export function ActivityScreen({
     setContestMatchId(matchId);
   };
 
-  const handleContestSubmit = (reason: string) => {
+  // A conflicting pair is shown once, on the later submission
+  const getConflictPartner = (match: Match) =>
+    match.conflict?.state === 'open' ? matches.find(m => m.id === match.conflict!.withMatchId) : undefined;
+  const visiblePendingMatches = pendingMatches.filter(match => {
+    const partner = getConflictPartner(match);
+    return !partner || partner.createdAt <= match.createdAt;
+  });
+
+  const editMatch = editMatchId ? matches.find(m => m.id === editMatchId) : undefined;
+
+  const handleEditComplete = (games: MatchGame[]) => {
+    if (editMatchId) {
+      amendMatch(editMatchId, games.map(g => ({ teamAScore: g.teamAScore, teamBScore: g.teamBScore })));
+    }
+  };
+
+  const handleContestSubmit = (reason: DisputeReason, details: { notes?: string; photoUris: string[] }) => {
     if (contestMatchId) {
-      disputeMatch(contestMatchId, reason);
+      const opened = disputeMatch(contestMatchId, reason, details);
       setContestMatchId(null);
-      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+      if (opened) {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+      } else {
+        Alert.alert('Contest not sent', "You've reached this week's contest limit.");
+      }
     }
   };
 
@@ -993,7 +1314,7 @@ export function ActivityScreen({
           }
         >
           {/* Pending confirmation section with accent highlight */}
-          {pendingMatches.length > 0 && (
+          {visiblePendingMatches.length > 0 && (
             <View style={styles.sectionContainer}>
               <View style={styles.sectionHeader}>
                 <View style={styles.sectionTitleRow}>
@@ -1001,17 +1322,23 @@ export function ActivityScreen({
                   <Text style={styles.sectionTitle}>Needs confirmation</Text>
                 </View>
                 <View style={styles.countBadge}>
-                  <Text style={styles.countText}>{pendingMatches.length}</Text>
+                  <Text style={styles.countText}>{visiblePendingMatches.length}</Text>
                 </View>
               </View>
-              {pendingMatches.map((match, index) => (
+              {visiblePendingMatches.map((match, index) => (
                 <ActivityMatchCard
                   key={match.id}
                   match={match}
                   index={index}
                   onConfirm={() => handleConfirm(match.id)}
                   onContest={() => handleContest(match.id)}
+                  onEdit={() => setEditMatchId(match.id)}
+                  conflictWith={getConflictPartner(match)}
+                  onResolveConflict={keepMatchId => resolveConflict(match.id, keepMatchId)}
                   isHighlighted={match.id === scrollToMatchId}
+                  syncState={getSyncState(match.id)}
+                  syncError={getFailure(match.id)}
+                  onRetrySync={() => retryFailed(match.id)}
                 />
               ))}
             </View>
@@ -1027,30 +1354,38 @@ export function ActivityScreen({
                 <ActivityMatchCard
                   key={match.id}
                   match={match}
-                  index={index + pendingMatches.length}
+                  index={index + visiblePendingMatches.length}
                   onConfirm={() => {}}
-                  onContest={() => {}}
+                  onContest={() => handleContest(match.id)}
                   isHighlighted={match.id === scrollToMatchId}
+                  syncState={getSyncState(match.id)}
+                  syncError={getFailure(match.id)}
+                  onRetrySync={() => retryFailed(match.id)}
                 />
               ))}
             </View>
           )}
 
           {/* Contested matches */}
-          {(disputedMatches.length > 0 || expiredMatches.length > 0) && (
+          {(disputedMatches.length > 0 || expiredMatches.length > 0 || voidedMatches.length > 0) && (
             <View style={styles.sectionContainer}>
               <View style={styles.sectionHeader}>
                 <Text style={[styles.sectionTitle, styles.sectionTitleMuted]}>
                   Contested & Expired
                 </Text>
               </View>
-              {[...disputedMatches, ...expiredMatches].map((match, index) => (
+              {[...disputedMatches, ...voidedMatches, ...expiredMatches].map((match, index) => (
                 <ActivityMatchCard
                   key={match.id}
                   match={match}
-                  index={index + pendingMatches.length + confirmedMatches.length}
+                  index={index + visiblePendingMatches.length + confirmedMatches.length}
                   onConfirm={() => {}}
                   onContest={() => {}}
+                  syncState={getSyncState(match.id)}
+                  syncError={getFailure(match.id)}
+                  onRetrySync={() => retryFailed(match.id)}
+                  onProposeCorrection={games => proposeCorrection(match.id, games)}
+                  onConfirmCorrection={() => confirmCorrection(match.id, 'current-user')}
                 />
               ))}
             </View>
@@ -1078,9 +1413,26 @@ export function ActivityScreen({
         {/* Contest sheet */}
         <ContestSheet
           visible={contestMatchId !== null}
+          quota={contestQuota}
+          trustScore={trustScore}
           onClose={() => setContestMatchId(null)}
           onSubmit={handleContestSubmit}
         />
+
+        <LogMatchSheet
+          visible={editMatch !== undefined}
+          onClose={() => setEditMatchId(null)}
+          onComplete={handleEditComplete}
+          title="Edit match"
+          saveLabel="Save & re-confirm"
+          initialGames={editMatch?.games}
+          gameFormat={editMatch ? getMatchGameFormat(editMatch) : undefined}
+          ratingPreviewMatch={editMatch}
+          matchType={editMatch?.mode}
+          teamALabel={editMatch?.teamA.map(p => p.name.split(' ')[0]).join(' & ')}
+          teamBLabel={editMatch?.teamB.map(p => p.name.split(' ')[0]).join(' & ')}
+          matchSubtitle="Opponents will need to confirm again"
+        />
       </Animated.View>
     </GestureDetector>
   );
@@ -1238,6 +1590,27 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: '500',
   },
+  headerRight: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  syncRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  syncLabel: {
+    color: colors.textMuted,
+    fontSize: 11,
+    fontWeight: '500',
+  },
+  syncLabelLocal: {
+    color: '#F59E0B',
+  },
+  syncLabelFailed: {
+    color: colors.red,
+  },
   teamsRow: {
     flexDirection: 'row',
     alignItems: 'center',
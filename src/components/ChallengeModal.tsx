@@ -17,7 +17,10 @@ import Animated, {
 } from 'react-native-reanimated';
 import { X, TrendingUp, TrendingDown } from 'lucide-react-native';
 import { colors, spacing, borderRadius } from '../theme/colors';
-import type { Player } from '../types';
+import type { CurrentUser, Player, RatingModel } from '../types';
+import { useRatingStore } from '../store';
+import { previewMatch, toPreviewPlayer } from '../utils';
+import { MatchStakesPreview } from './MatchStakesPreview';
 
 const { height: SCREEN_HEIGHT } = Dimensions.get('window');
 
@@ -27,24 +30,29 @@ interface ChallengeModalProps {
   isOpen: boolean;
   onClose: () => void;
   player: Player | null;
-  userElo: number;
+  user: Pick<CurrentUser, 'id' | 'elo' | 'ratings'>;
+  /** Rating model of the court's league, used for the prediction */
+  ratingModel?: RatingModel;
 }
 
-export function ChallengeModal({ isOpen, onClose, player, userElo }: ChallengeModalProps) {
+export function ChallengeModal({ isOpen, onClose, player, user, ratingModel }: ChallengeModalProps) {
+  const { getRating } = useRatingStore();
   const translateY = useSharedValue(SCREEN_HEIGHT);
   const backdropOpacity = useSharedValue(0);
   const progressWidth = useSharedValue(0);
   const buttonScale = useSharedValue(1);
 
-  const eloDiff = player ? userElo - player.elo : 0;
-  const winProbability = Math.round(50 + (eloDiff / 20));
-  const clampedProbability = Math.max(10, Math.min(90, winProbability));
+  // Challenges are singles: both sides are previewed on their stored singles rating
+  const userPreview = toPreviewPlayer(user, 'singles', getRating(user.id, 'singles'));
+  const opponentPreview = player ? toPreviewPlayer(player, 'singles', getRating(player.id, 'singles')) : null;
+  const preview = opponentPreview ? previewMatch([userPreview], [opponentPreview], ratingModel) : null;
+  const winProbability = preview?.teamAWinProbability ?? 50;
 
   useEffect(() => {
     if (isOpen) {
       translateY.value = withSpring(0, { damping: 30, stiffness: 300 });
       backdropOpacity.value = withTiming(1, { duration: 200 });
-      progressWidth.value = withTiming(clampedProbability, {
+      progressWidth.value = withTiming(winProbability, {
         duration: 800,
         easing: Easing.out(Easing.ease),
       });
@@ -53,7 +61,7 @@ export function ChallengeModal({ isOpen, onClose, player, userElo }: ChallengeMo
       backdropOpacity.value = withTiming(0, { duration: 200 });
       progressWidth.value = 0;
     }
-  }, [isOpen, clampedProbability]);
+  }, [isOpen, winProbability]);
 
   const animatedModalStyle = useAnimatedStyle(() => ({
     transform: [{ translateY: translateY.value }],
@@ -104,7 +112,7 @@ export function ChallengeModal({ isOpen, onClose, player, userElo }: ChallengeMo
           <Text style={styles.opponentName}>{player.name}</Text>
           <View style={styles.opponentEloRow}>
             <Text style={styles.eloLabel}>ELO</Text>
-            <Text style={styles.opponentElo}>{player.elo}</Text>
+            <Text style={styles.opponentElo}>{opponentPreview?.elo}</Text>
           </View>
         </View>
 
@@ -112,12 +120,12 @@ export function ChallengeModal({ isOpen, onClose, player, userElo }: ChallengeMo
           <Text style={styles.predictionTitle}>Match Prediction</Text>
 
           <View style={styles.probabilityRow}>
-            {clampedProbability >= 50 ? (
+            {winProbability >= 50 ? (
               <TrendingUp size={24} color={colors.accent} />
             ) : (
               <TrendingDown size={24} color={colors.red} />
             )}
-            <Text style={styles.probabilityValue}>{clampedProbability}%</Text>
+            <Text style={styles.probabilityValue}>{winProbability}%</Text>
           </View>
           <Text style={styles.probabilityLabel}>Win Probability</Text>
 
@@ -125,14 +133,24 @@ export function ChallengeModal({ isOpen, onClose, player, userElo }: ChallengeMo
             <Animated.View style={[styles.progressBar, animatedProgressStyle]} />
           </View>
 
+          {preview && (
+            <View style={styles.stakesPreview}>
+              <MatchStakesPreview
+                preview={preview}
+                playerId={user.id}
+                teamBLabel={player.name.split(' ')[0]}
+              />
+            </View>
+          )}
+
           <View style={styles.eloComparison}>
             <View style={styles.eloColumn}>
               <Text style={styles.eloCompareLabel}>Your ELO</Text>
-              <Text style={styles.eloCompareValue}>{userElo}</Text>
+              <Text style={styles.eloCompareValue}>{userPreview.elo}</Text>
             </View>
             <View style={styles.eloColumn}>
               <Text style={styles.eloCompareLabel}>Opponent ELO</Text>
-              <Text style={styles.eloCompareValue}>{player.elo}</Text>
+              <Text style={styles.eloCompareValue}>{opponentPreview?.elo}</Text>
             </View>
           </View>
         </View>
@@ -247,6 +265,9 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginBottom: spacing.lg,
   },
+  stakesPreview: {
+    marginTop: spacing.lg,
+  },
   progressBarContainer: {
     height: 8,
     backgroundColor: colors.whiteMedium,
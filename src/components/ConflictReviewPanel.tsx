@@ -0,0 +1,132 @@
+import React from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { AlertTriangle } from 'lucide-react-native';
+import { colors, spacing, borderRadius } from '../theme/colors';
+import { alignGames } from '../utils';
+import { getMatchSubmitterId } from '../store';
+import type { Match } from '../store';
+
+interface ConflictReviewPanelProps {
+  match: Match;
+  /** The other submission of the same match */
+  otherMatch: Match;
+  onKeep: (matchId: string) => void;
+}
+
+function getSubmitterName(match: Match): string {
+  const submitterId = getMatchSubmitterId(match);
+  const submitter = [...match.teamA, ...match.teamB].find(p => p.id === submitterId);
+  return submitterId === 'current-user' ? 'You' : submitter?.name.split(' ')[0] ?? 'Opponent';
+}
+
+export function ConflictReviewPanel({ match, otherMatch, onKeep }: ConflictReviewPanelProps) {
+  // Both score lines in this match's team order so they line up
+  const sides = [
+    { match, games: match.games },
+    { match: otherMatch, games: alignGames(match, otherMatch) },
+  ];
+  const gameCount = Math.max(...sides.map(side => side.games.length));
+
+  const handleKeep = (matchId: string) => {
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    onKeep(matchId);
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.headerRow}>
+        <AlertTriangle size={14} color="#F59E0B" />
+        <Text style={styles.title}>Scores don't match</Text>
+      </View>
+      <Text style={styles.subtitle}>Both teams logged this match. Pick the correct score.</Text>
+
+      <View style={styles.columns}>
+        {sides.map(side => (
+          <View key={side.match.id} style={styles.column}>
+            <Text style={styles.columnTitle}>Logged by {getSubmitterName(side.match)}</Text>
+            {Array.from({ length: gameCount }).map((_, i) => {
+              const game = side.games[i];
+              const [mine, theirs] = [sides[0].games[i], sides[1].games[i]];
+              const differs = mine?.teamAScore !== theirs?.teamAScore || mine?.teamBScore !== theirs?.teamBScore;
+              return (
+                <Text key={i} style={[styles.gameText, differs && styles.gameTextDiffers]}>
+                  {game ? `${game.teamAScore}–${game.teamBScore}` : '—'}
+                </Text>
+              );
+            })}
+            <Pressable style={styles.keepButton} onPress={() => handleKeep(side.match.id)}>
+              <Text style={styles.keepButtonText}>Use this score</Text>
+            </Pressable>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: spacing.sm,
+    padding: spacing.md,
+    backgroundColor: colors.cardSecondary,
+    borderRadius: borderRadius.lg,
+    borderWidth: 1,
+    borderColor: 'rgba(245, 158, 11, 0.3)',
+    gap: spacing.sm,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  title: {
+    color: colors.white,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  subtitle: {
+    color: colors.textMuted,
+    fontSize: 12,
+  },
+  columns: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  column: {
+    flex: 1,
+    alignItems: 'center',
+    gap: spacing.xs,
+    padding: spacing.sm,
+    borderRadius: borderRadius.md,
+    backgroundColor: colors.whiteSubtle,
+  },
+  columnTitle: {
+    color: colors.textSecondary,
+    fontSize: 12,
+    fontWeight: '500',
+    marginBottom: spacing.xs,
+  },
+  gameText: {
+    color: colors.white,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  gameTextDiffers: {
+    color: '#F59E0B',
+  },
+  keepButton: {
+    marginTop: spacing.sm,
+    alignSelf: 'stretch',
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.borderMedium,
+  },
+  keepButtonText: {
+    color: colors.white,
+    fontSize: 13,
+    fontWeight: '500',
+  },
+});
@@ -0,0 +1,353 @@
+import React, { useState } from 'react';
+import { View, Text, Pressable, Image, StyleSheet } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { Minus, Plus, Check } from 'lucide-react-native';
+import { colors, spacing, borderRadius } from '../theme/colors';
+import { SCORING } from '../constants';
+import { getMatchSubmitterId, getMatchGameFormat } from '../store';
+import { validateMatchGames } from '../utils';
+import type { DisputeEventType, DisputeReason, DisputeState, Match, MatchGame } from '../store';
+
+interface DisputePanelProps {
+  match: Match;
+  currentUserId: string;
+  onProposeCorrection: (games: MatchGame[]) => void;
+  onConfirmCorrection: () => void;
+}
+
+const REASON_LABELS: Record<DisputeReason, string> = {
+  wrong_score: 'Wrong score',
+  wrong_players: 'Wrong players',
+  did_not_play: "Didn't play",
+  other: 'Other issue',
+};
+
+const STATE_CONFIG: Record<DisputeState, { label: string; color: string }> = {
+  open: { label: 'Open', color: '#F59E0B' },
+  corrected: { label: 'Corrected', color: colors.accent },
+  upheld: { label: 'Upheld', color: colors.textSecondary },
+  voided: { label: 'Voided', color: colors.red },
+};
+
+const EVENT_LABELS: Record<DisputeEventType, string> = {
+  opened: 'Contested',
+  evidence_added: 'Photo added',
+  correction_proposed: 'Corrected score proposed',
+  correction_confirmed: 'Correction confirmed',
+  resolved: 'Resolved',
+};
+
+function formatEventTime(at: number): string {
+  return new Date(at).toLocaleDateString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+function ScoreStepper({ value, max, onChange }: { value: number; max: number; onChange: (value: number) => void }) {
+  const step = (delta: number) => {
+    const next = Math.min(max, Math.max(0, value + delta));
+    if (next === value) return;
+    Haptics.selectionAsync();
+    onChange(next);
+  };
+
+  return (
+    <View style={styles.stepper}>
+      <Pressable style={styles.stepperButton} onPress={() => step(-1)} hitSlop={6}>
+        <Minus size={12} color={colors.textSecondary} />
+      </Pressable>
+      <Text style={styles.stepperValue}>{value}</Text>
+      <Pressable style={styles.stepperButton} onPress={() => step(1)} hitSlop={6}>
+        <Plus size={12} color={colors.textSecondary} />
+      </Pressable>
+    </View>
+  );
+}
+
+export function DisputePanel({ match, currentUserId, onProposeCorrection, onConfirmCorrection }: DisputePanelProps) {
+  const [draftGames, setDraftGames] = useState<MatchGame[] | null>(null);
+  const dispute = match.dispute;
+  if (!dispute) return null;
+
+  const stateConfig = STATE_CONFIG[dispute.state];
+  const correction = dispute.correction;
+  const isSubmitter = getMatchSubmitterId(match) === currentUserId;
+  const canPropose = dispute.state === 'open' && !correction && isSubmitter;
+  const needsMyConfirmation = dispute.state === 'open' &&
+    correction?.confirmations.some(c => c.odinal === currentUserId && c.state === 'pending');
+  const approvedCount = correction?.confirmations.filter(c => c.state === 'approved').length ?? 0;
+
+  // Corrections are held to the same format as the original match
+  const gameFormat = getMatchGameFormat(match);
+  const maxScore = gameFormat.cap ?? SCORING.MAX_POINTS;
+  const draftError = draftGames ? validateMatchGames(gameFormat, draftGames) : null;
+
+  const updateDraft = (index: number, side: keyof MatchGame, value: number) => {
+    setDraftGames(prev => prev?.map((g, i) => (i === index ? { ...g, [side]: value } : g)) ?? null);
+  };
+
+  const handleSubmitCorrection = () => {
+    if (!draftGames || draftError) return;
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    onProposeCorrection(draftGames);
+    setDraftGames(null);
+  };
+
+  const handleConfirmCorrection = () => {
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    onConfirmCorrection();
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.headerRow}>
+        <Text style={styles.reasonText}>{REASON_LABELS[dispute.reason]}</Text>
+        <View style={[styles.stateBadge, { borderColor: stateConfig.color }]}>
+          <Text style={[styles.stateText, { color: stateConfig.color }]}>{stateConfig.label}</Text>
+        </View>
+      </View>
+
+      {dispute.notes && <Text style={styles.notesText}>{dispute.notes}</Text>}
+
+      {dispute.photoUris.length > 0 && (
+        <View style={styles.photoRow}>
+          {dispute.photoUris.map(uri => (
+            <Image key={uri} source={{ uri }} style={styles.photoThumb} />
+          ))}
+        </View>
+      )}
+
+      {/* Proposed correction awaiting re-confirmation */}
+      {correction && (
+        <View style={styles.correctionCard}>
+          <Text style={styles.sectionLabel}>
+            Corrected score · {approvedCount}/{correction.confirmations.length} confirmed
+          </Text>
+          <View style={styles.gamesRow}>
+            {correction.games.map((game, i) => (
+              <Text key={i} style={styles.gameText}>{game.teamAScore}–{game.teamBScore}</Text>
+            ))}
+          </View>
+          {needsMyConfirmation && (
+            <Pressable style={styles.primaryButton} onPress={handleConfirmCorrection}>
+              <Check size={14} color={colors.black} strokeWidth={2.5} />
+              <Text style={styles.primaryButtonText}>Confirm corrected score</Text>
+            </Pressable>
+          )}
+        </View>
+      )}
+
+      {/* Submitter edits the scores */}
+      {canPropose && !draftGames && (
+        <Pressable style={styles.secondaryButton} onPress={() => setDraftGames(match.games.map(g => ({ ...g })))}>
+          <Text style={styles.secondaryButtonText}>Propose corrected score</Text>
+        </Pressable>
+      )}
+      {canPropose && draftGames && (
+        <View style={styles.correctionCard}>
+          {draftGames.map((game, i) => (
+            <View key={i} style={styles.draftRow}>
+              <Text style={styles.draftLabel}>Game {i + 1}</Text>
+              <ScoreStepper value={game.teamAScore} max={maxScore} onChange={v => updateDraft(i, 'teamAScore', v)} />
+              <ScoreStepper value={game.teamBScore} max={maxScore} onChange={v => updateDraft(i, 'teamBScore', v)} />
+            </View>
+          ))}
+          {draftError && <Text style={styles.errorText}>{draftError}</Text>}
+          <View style={styles.draftActions}>
+            <Pressable style={styles.textButton} onPress={() => setDraftGames(null)}>
+              <Text style={styles.textButtonText}>Cancel</Text>
+            </Pressable>
+            <Pressable
+              style={[styles.primaryButton, draftError && styles.buttonDisabled]}
+              onPress={handleSubmitCorrection}
+              disabled={!!draftError}
+            >
+              <Text style={styles.primaryButtonText}>Send for re-confirmation</Text>
+            </Pressable>
+          </View>
+        </View>
+      )}
+
+      {/* Timeline */}
+      <View style={styles.timeline}>
+        {dispute.timeline.map((event, i) => (
+          <View key={i} style={styles.timelineRow}>
+            <View style={styles.timelineDot} />
+            <Text style={styles.timelineText} numberOfLines={1}>
+              {EVENT_LABELS[event.type]}
+              {event.type === 'resolved' && event.note ? ` · ${event.note}` : ''}
+            </Text>
+            <Text style={styles.timelineTime}>{formatEventTime(event.at)}</Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: spacing.sm,
+    padding: spacing.md,
+    backgroundColor: colors.cardSecondary,
+    borderRadius: borderRadius.lg,
+    borderWidth: 1,
+    borderColor: colors.borderLight,
+    gap: spacing.sm,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  reasonText: {
+    color: colors.white,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  stateBadge: {
+    borderWidth: 1,
+    borderRadius: borderRadius.full,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: 2,
+  },
+  stateText: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  notesText: {
+    color: colors.textSecondary,
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  photoRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+  },
+  photoThumb: {
+    width: 44,
+    height: 44,
+    borderRadius: borderRadius.sm,
+  },
+  correctionCard: {
+    gap: spacing.sm,
+    padding: spacing.sm,
+    borderRadius: borderRadius.md,
+    backgroundColor: colors.whiteSubtle,
+  },
+  sectionLabel: {
+    color: colors.textMuted,
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  gamesRow: {
+    flexDirection: 'row',
+    gap: spacing.md,
+  },
+  gameText: {
+    color: colors.white,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  draftRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  draftLabel: {
+    color: colors.textMuted,
+    fontSize: 12,
+    width: 56,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  stepperButton: {
+    width: 24,
+    height: 24,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.whiteMedium,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepperValue: {
+    color: colors.white,
+    fontSize: 15,
+    fontWeight: '600',
+    minWidth: 20,
+    textAlign: 'center',
+  },
+  errorText: {
+    color: colors.red,
+    fontSize: 12,
+  },
+  draftActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.xs,
+    backgroundColor: colors.accent,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    borderRadius: borderRadius.md,
+  },
+  primaryButtonText: {
+    color: colors.black,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.borderMedium,
+  },
+  secondaryButtonText: {
+    color: colors.textSecondary,
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  textButton: {
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+  },
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+  textButtonText: {
+    color: colors.textMuted,
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  timeline: {
+    gap: spacing.xs,
+  },
+  timelineRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  timelineDot: {
+    width: 5,
+    height: 5,
+    borderRadius: 3,
+    backgroundColor: colors.whiteBorder,
+  },
+  timelineText: {
+    flex: 1,
+    color: colors.textSecondary,
+    fontSize: 12,
+  },
+  timelineTime: {
+    color: colors.textMuted,
+    fontSize: 11,
+  },
+});
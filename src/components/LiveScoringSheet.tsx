@@ -0,0 +1,383 @@
+import React from 'react';
+import { View, Text, StyleSheet, Pressable, Modal } from 'react-native';
+import Animated, { FadeIn, FadeOut, SlideInUp, SlideOutDown } from 'react-native-reanimated';
+import * as Haptics from 'expo-haptics';
+import { X, RotateCcw } from 'lucide-react-native';
+import { colors, spacing, borderRadius } from '../theme/colors';
+import { useLiveScoreStore } from '../store';
+import type { GameFormat } from '../types';
+import { describeGameFormat, getScoreCall, getTimeoutsRemaining, validateMatchGames } from '../utils';
+import type { GameScoreLine, GameSide } from '../utils';
+
+interface LiveScoringSheetProps {
+  visible: boolean;
+  gameFormat: GameFormat;
+  teamALabel?: string;
+  teamBLabel?: string;
+  /** Hide the sheet; live scoring carries on and can be reopened */
+  onClose: () => void;
+  /** Called with the finished games when scoring ends */
+  onComplete: (games: GameScoreLine[]) => void;
+}
+
+/**
+ * LiveScoringSheet - Point-by-point scorekeeping for side-out doubles
+ *
+ * Tap the team that won each rally; the sheet tracks serve, calls the score
+ * ("4-2-1") and hands the finished games to the normal submission flow.
+ */
+export function LiveScoringSheet({
+  visible,
+  gameFormat,
+  teamALabel = 'You',
+  teamBLabel = 'Them',
+  onClose,
+  onComplete,
+}: LiveScoringSheetProps) {
+  const { session, liveState, start, recordRally, callTimeout, undo, finish, cancel } = useLiveScoreStore();
+
+  if (!visible) return null;
+
+  // A match already being scored keeps the format it started with
+  const format = session?.format ?? gameFormat;
+  const labels: Record<GameSide, string> = { teamA: teamALabel, teamB: teamBLabel };
+  const current = liveState?.current;
+  const completedGames = liveState?.completedGames ?? [];
+  const canFinish = completedGames.length > 0 && validateMatchGames(format, completedGames) === null;
+  const timeoutsRemaining = session && current
+    ? getTimeoutsRemaining(format, session.timeouts, current.gameIndex)
+    : { teamA: 0, teamB: 0 };
+  const canUndo = !!session && session.events.length + session.timeouts.length > 0;
+
+  const handleStart = (firstServingTeam: GameSide) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    start({ format: gameFormat, firstServingTeam });
+  };
+
+  const handleRally = (winner: GameSide) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    recordRally(winner);
+  };
+
+  const handleTimeout = (team: GameSide) => {
+    if (callTimeout(team)) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+    }
+  };
+
+  const handleUndo = () => {
+    Haptics.selectionAsync();
+    undo();
+  };
+
+  const handleFinish = () => {
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    onComplete(finish());
+  };
+
+  const handleDiscard = () => {
+    cancel();
+    onClose();
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="none">
+      <Animated.View entering={FadeIn.duration(200)} exiting={FadeOut.duration(200)} style={styles.overlay}>
+        <Pressable style={styles.overlayPressable} onPress={onClose} />
+
+        <Animated.View
+          entering={SlideInUp.duration(400).springify().damping(18)}
+          exiting={SlideOutDown.duration(300)}
+          style={styles.sheet}
+        >
+          {/* Header */}
+          <View style={styles.header}>
+            <View>
+              <Text style={styles.headerTitle}>Live scoring</Text>
+              <Text style={styles.formatText}>{describeGameFormat(format)}</Text>
+            </View>
+            <Pressable style={styles.closeButton} onPress={onClose}>
+              <X size={20} color={colors.textMuted} />
+            </Pressable>
+          </View>
+
+          {!session || !current ? (
+            // Pick the first server before the first rally
+            <View style={styles.body}>
+              <Text style={styles.promptText}>Who serves first?</Text>
+              <View style={styles.rallyButtons}>
+                {(['teamA', 'teamB'] as GameSide[]).map(side => (
+                  <Pressable key={side} style={styles.rallyButton} onPress={() => handleStart(side)}>
+                    <Text style={styles.rallyButtonText}>{labels[side]}</Text>
+                  </Pressable>
+                ))}
+              </View>
+            </View>
+          ) : (
+            <View style={styles.body}>
+              {/* Finished games */}
+              {completedGames.length > 0 && (
+                <View style={styles.gamesRow}>
+                  {completedGames.map((game, i) => (
+                    <View key={i} style={styles.gameChip}>
+                      <Text style={styles.gameChipText}>G{i + 1} {game.teamAScore}–{game.teamBScore}</Text>
+                    </View>
+                  ))}
+                </View>
+              )}
+
+              {liveState.isMatchOver ? (
+                <Text style={styles.scoreCall}>Match over</Text>
+              ) : (
+                <>
+                  <Text style={styles.scoreCall}>{getScoreCall(current)}</Text>
+                  <Text style={styles.serveText}>
+                    Game {current.gameIndex + 1} · {labels[current.servingTeam]} serving · Server {current.serverNumber} from the {current.serverSide}
+                  </Text>
+
+                  {/* Current game score with the serving team marked */}
+                  <View style={styles.scoreRow}>
+                    {(['teamA', 'teamB'] as GameSide[]).map(side => (
+                      <View key={side} style={styles.scoreColumn}>
+                        <View style={styles.teamLabelRow}>
+                          {current.servingTeam === side && <View style={styles.serveDot} />}
+                          <Text style={styles.teamLabel}>{labels[side]}</Text>
+                        </View>
+                        <Text style={styles.scoreValue}>
+                          {side === 'teamA' ? current.teamAScore : current.teamBScore}
+                        </Text>
+                        {!!format.timeoutsPerGame && (
+                          <Pressable
+                            onPress={() => handleTimeout(side)}
+                            disabled={timeoutsRemaining[side] === 0}
+                            hitSlop={6}
+                          >
+                            <Text style={[styles.timeoutText, timeoutsRemaining[side] === 0 && styles.undoTextDisabled]}>
+                              Timeout · {timeoutsRemaining[side]} left
+                            </Text>
+                          </Pressable>
+                        )}
+                      </View>
+                    ))}
+                  </View>
+
+                  <Text style={styles.promptText}>Who won the rally?</Text>
+                  <View style={styles.rallyButtons}>
+                    {(['teamA', 'teamB'] as GameSide[]).map(side => (
+                      <Pressable key={side} style={styles.rallyButton} onPress={() => handleRally(side)}>
+                        <Text style={styles.rallyButtonText}>{labels[side]}</Text>
+                      </Pressable>
+                    ))}
+                  </View>
+                </>
+              )}
+
+              <Pressable
+                style={styles.undoButton}
+                onPress={handleUndo}
+                disabled={!canUndo}
+              >
+                <RotateCcw size={14} color={canUndo ? colors.textSecondary : colors.textMuted} />
+                <Text style={[styles.undoText, !canUndo && styles.undoTextDisabled]}>
+                  Undo
+                </Text>
+              </Pressable>
+
+              <Pressable
+                style={[styles.finishButton, !canFinish && styles.finishButtonDisabled]}
+                onPress={canFinish ? handleFinish : undefined}
+                disabled={!canFinish}
+              >
+                <Text style={[styles.finishButtonText, !canFinish && styles.finishButtonTextDisabled]}>
+                  Submit score
+                </Text>
+              </Pressable>
+
+              <Pressable style={styles.discardButton} onPress={handleDiscard}>
+                <Text style={styles.discardText}>Discard</Text>
+              </Pressable>
+            </View>
+          )}
+        </Animated.View>
+      </Animated.View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: colors.blackOverlay,
+    justifyContent: 'flex-end',
+  },
+  overlayPressable: {
+    flex: 1,
+  },
+  sheet: {
+    backgroundColor: colors.card,
+    borderTopLeftRadius: borderRadius.xxl,
+    borderTopRightRadius: borderRadius.xxl,
+    maxHeight: '90%',
+    paddingBottom: 34,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: spacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.borderLight,
+  },
+  headerTitle: {
+    color: colors.white,
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  formatText: {
+    color: colors.textMuted,
+    fontSize: 12,
+    marginTop: 2,
+  },
+  closeButton: {
+    padding: spacing.xs,
+  },
+  body: {
+    padding: spacing.lg,
+    gap: spacing.md,
+  },
+  gamesRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+  },
+  gameChip: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.whiteSubtle,
+  },
+  gameChipText: {
+    color: colors.textSecondary,
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  scoreCall: {
+    color: colors.white,
+    fontSize: 44,
+    fontWeight: '700',
+    textAlign: 'center',
+    letterSpacing: 2,
+  },
+  serveText: {
+    color: colors.textMuted,
+    fontSize: 13,
+    textAlign: 'center',
+  },
+  scoreRow: {
+    flexDirection: 'row',
+    gap: spacing.md,
+  },
+  scoreColumn: {
+    flex: 1,
+    alignItems: 'center',
+    padding: spacing.md,
+    borderRadius: borderRadius.lg,
+    backgroundColor: colors.cardSecondary,
+  },
+  teamLabelRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  serveDot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: colors.accent,
+  },
+  teamLabel: {
+    color: colors.textSecondary,
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  scoreValue: {
+    color: colors.white,
+    fontSize: 32,
+    fontWeight: '700',
+    marginTop: spacing.xs,
+  },
+  timeoutText: {
+    color: colors.textSecondary,
+    fontSize: 12,
+    marginTop: spacing.xs,
+  },
+  promptText: {
+    color: colors.textSecondary,
+    fontSize: 14,
+    fontWeight: '500',
+    textAlign: 'center',
+  },
+  rallyButtons: {
+    flexDirection: 'row',
+    gap: spacing.md,
+  },
+  rallyButton: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    minHeight: 64,
+    borderRadius: borderRadius.lg,
+    borderWidth: 1,
+    borderColor: colors.borderMedium,
+    backgroundColor: colors.whiteSubtle,
+  },
+  rallyButtonText: {
+    color: colors.white,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  undoButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.xs,
+    paddingVertical: spacing.sm,
+  },
+  undoText: {
+    color: colors.textSecondary,
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  undoTextDisabled: {
+    color: colors.textMuted,
+  },
+  finishButton: {
+    backgroundColor: colors.accent,
+    paddingVertical: spacing.md + 2,
+    borderRadius: borderRadius.lg,
+    alignItems: 'center',
+    minHeight: 50,
+    justifyContent: 'center',
+  },
+  finishButtonDisabled: {
+    backgroundColor: colors.textMuted,
+    opacity: 0.6,
+  },
+  finishButtonText: {
+    color: colors.black,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  finishButtonTextDisabled: {
+    color: colors.white,
+  },
+  discardButton: {
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+  },
+  discardText: {
+    color: colors.textMuted,
+    fontSize: 14,
+    fontWeight: '500',
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState, useRef, useCallback, useEffect } from 'react';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -22,9 +22,20 @@ import Animated, {
 import { Gesture, GestureDetector } from 'react-native-gesture-handler';
 import { Trash2 } from 'lucide-react-native';
 import { colors, spacing, borderRadius } from '../theme/colors';
+import { DEFAULT_GAME_FORMAT } from '../constants';
+import { matchStore } from '../store';
+import type { Match } from '../store';
+import type { GameFormat } from '../types';
+import {
+  describeGameFormat,
+  getMaxGames,
+  getMaxGameScore,
+  isGameComplete as isGameCompleteForFormat,
+  validateMatchGames,
+} from '../utils';
 
 const { height: SCREEN_HEIGHT } = Dimensions.get('window');
-const SHEET_HEIGHT = 460;
+const SHEET_HEIGHT = 520;
 const DISMISS_THRESHOLD = 150;
 
 // Strong type for game scores - ensures no blank/invalid chips
@@ -239,9 +250,6 @@ const gameChipStyles = StyleSheet.create({
   },
 });
 
-// Game target is fixed at 11 with win-by-2 rules
-const GAME_TARGET = 11;
-
 interface LogMatchSheetProps {
   visible: boolean;
   onClose: () => void;
@@ -250,6 +258,16 @@ interface LogMatchSheetProps {
   teamBLabel?: string;
   matchSubtitle?: string;
   matchType?: 'singles' | 'doubles';
+  /** Participants to preview rating changes for as scores are entered */
+  ratingPreviewMatch?: Pick<Match, 'mode' | 'leagueId' | 'teamA' | 'teamB'>;
+  /** Scores to start from when editing an existing match */
+  initialGames?: { teamAScore: number; teamBScore: number }[];
+  title?: string;
+  saveLabel?: string;
+  /** Scoring rules the games are checked against (court/league format) */
+  gameFormat?: GameFormat;
+  /** Switch to rally-by-rally live scoring (shown when provided) */
+  onScoreLive?: () => void;
 }
 
 // Custom hook for long-press acceleration with haptics
@@ -313,6 +331,12 @@ export function LogMatchSheet({
   teamBLabel = 'Them',
   matchSubtitle,
   matchType = 'singles',
+  ratingPreviewMatch,
+  initialGames,
+  title = 'Log match',
+  saveLabel = 'Save',
+  gameFormat = DEFAULT_GAME_FORMAT,
+  onScoreLive,
 }: LogMatchSheetProps) {
   const [games, setGames] = useState<GameScore[]>([createGameScore()]);
   const [currentGameIndex, setCurrentGameIndex] = useState(0);
@@ -333,6 +357,14 @@ export function LogMatchSheet({
     return hasScore ? index : latest;
   }, -1);
 
+  // Start from the existing scores when editing
+  useEffect(() => {
+    if (visible && initialGames && initialGames.length > 0) {
+      setGames(initialGames.map(g => ({ ...createGameScore(), teamAScore: g.teamAScore, teamBScore: g.teamBScore })));
+      setCurrentGameIndex(0);
+    }
+  }, [visible, initialGames]);
+
   // Animate sheet in/out when visibility changes
   useEffect(() => {
     if (visible) {
@@ -427,15 +459,11 @@ export function LogMatchSheet({
       }
     });
 
-  // Get max allowed score (clamped for realistic scores)
-  // Uses fixed GAME_TARGET of 11 with win-by-2 rules
-  const getMaxScore = useCallback((opponentScore: number): number => {
-    if (opponentScore >= GAME_TARGET - 1) {
-      // Deuce scenario - can go up to opponent + 2
-      return Math.min(opponentScore + 2, 30); // Cap at 30 for realism
-    }
-    return GAME_TARGET;
-  }, []);
+  // Get max allowed score: the score that would win from the opponent's score
+  const getMaxScore = useCallback(
+    (opponentScore: number): number => getMaxGameScore(gameFormat, opponentScore),
+    [gameFormat]
+  );
 
   const incrementScoreA = useCallback(() => {
     setGames(prevGames => {
@@ -489,8 +517,10 @@ export function LogMatchSheet({
   const incrementBPress = useLongPressAcceleration(incrementScoreB);
   const decrementBPress = useLongPressAcceleration(decrementScoreB);
 
+  const maxGames = getMaxGames(gameFormat);
+
   const addGame = () => {
-    if (games.length < 5) {
+    if (games.length < maxGames) {
       const newGame = createGameScore();
       setGames([...games, newGame]);
       setCurrentGameIndex(games.length);
@@ -529,42 +559,41 @@ export function LogMatchSheet({
   }));
 
 
-  // Check if current game is complete (to GAME_TARGET with win-by-2)
-  const isGameComplete = (() => {
-    const { teamAScore, teamBScore } = currentGame;
-    const maxScore = Math.max(teamAScore, teamBScore);
-    const minScore = Math.min(teamAScore, teamBScore);
-    if (maxScore >= GAME_TARGET && maxScore - minScore >= 2) {
-      return true;
-    }
-    return false;
-  })();
-
-  // Helper to check if a single game is complete (meets win conditions)
-  const isGameCompleteScore = (g: GameScore): boolean => {
-    const maxScore = Math.max(g.teamAScore, g.teamBScore);
-    const minScore = Math.min(g.teamAScore, g.teamBScore);
-    return maxScore >= GAME_TARGET && maxScore - minScore >= 2;
-  };
+  // Helper to check if a single game is complete (a valid final score for the format)
+  const isGameCompleteScore = (g: GameScore): boolean => isGameCompleteForFormat(gameFormat, g);
+
+  // Check if current game is complete
+  const isGameComplete = isGameCompleteScore(currentGame);
 
-  // Check if we have at least one game with scores entered
-  const hasAnyScores = games.some(g => g.teamAScore > 0 || g.teamBScore > 0);
+  // Empty (0-0) games are ignored; every other game must be a valid final score
+  // and together they must make a finished match under the format
+  const scoredGames = games.filter(g => g.teamAScore > 0 || g.teamBScore > 0);
+  const matchError = validateMatchGames(gameFormat, scoredGames);
 
-  // Check if ALL games with scores are complete (valid for saving)
-  // A game is either empty (0-0) or complete - no partial/invalid scores allowed
-  const allGamesValid = games.every(g => {
-    const hasScore = g.teamAScore > 0 || g.teamBScore > 0;
-    // If no score entered, it's fine (empty game)
-    if (!hasScore) return true;
-    // If has score, must be complete
-    return isGameCompleteScore(g);
-  });
+  // Save is only enabled when the scored games make a valid, finished match
+  const canSave = matchError === null;
 
-  // Save is only enabled when we have scores AND all scored games are valid
-  const canSave = hasAnyScores && allGamesValid;
+  // Best-of matches stop taking games once someone has clinched
+  const isMatchDecided = !!gameFormat.bestOf && matchError === null;
+
+  // Projected rating changes from the completed games, via the confirmation engine
+  const ratingPreview = useMemo(() => {
+    const completedGames = games
+      .filter(isGameCompleteScore)
+      .map(g => ({ teamAScore: g.teamAScore, teamBScore: g.teamBScore }));
+    if (!ratingPreviewMatch || completedGames.length === 0) return [];
+
+    const rated = matchStore.projectRatingChanges({ ...ratingPreviewMatch, games: completedGames });
+    return [...rated.teamA, ...rated.teamB].map(p => ({
+      id: p.id,
+      name: p.name.split(' ')[0],
+      delta: (p.ratingAfter ?? 0) - (p.ratingBefore ?? 0),
+    }));
+  }, [games, ratingPreviewMatch]);
 
   // Dynamic subtitle
   const contextSubtitle = matchSubtitle || `${matchType === 'singles' ? 'Singles' : 'Doubles'} · Rated match`;
+  const formatLabel = describeGameFormat(gameFormat);
 
   if (!visible) return null;
 
@@ -585,8 +614,14 @@ export function LogMatchSheet({
 
           {/* Header */}
           <View style={styles.header}>
-            <Text style={styles.title}>Log match</Text>
+            <Text style={styles.title}>{title}</Text>
             <Text style={styles.contextSubtitle}>{contextSubtitle}</Text>
+            <Text style={styles.formatLabel}>{formatLabel}</Text>
+            {onScoreLive && (
+              <Pressable style={styles.scoreLiveButton} onPress={onScoreLive} hitSlop={8}>
+                <Text style={styles.scoreLiveText}>Score live instead</Text>
+              </Pressable>
+            )}
           </View>
 
           {/* Game Chips - show logged games (only when multiple games exist) */}
@@ -662,7 +697,7 @@ export function LogMatchSheet({
 
 
           {/* Add Game - text only, low emphasis */}
-          {games.length < 5 && (
+          {games.length < maxGames && !isMatchDecided && (
             <Pressable
               style={styles.addGameButton}
               onPress={isGameComplete ? addGame : undefined}
@@ -672,11 +707,33 @@ export function LogMatchSheet({
                 styles.addGameButtonText,
                 !isGameComplete && styles.addGameButtonTextDisabled,
               ]}>
-                {isGameComplete ? 'Add another game' : 'Finish game to 11'}
+                {isGameComplete ? 'Add another game' : `Finish game to ${gameFormat.target}`}
               </Text>
             </Pressable>
           )}
 
+          {/* Why the match can't be saved yet, once the current game is done */}
+          {isGameComplete && matchError && (
+            <Text style={styles.matchErrorText}>{matchError}</Text>
+          )}
+
+          {/* Projected rating changes */}
+          {ratingPreview.length > 0 && (
+            <View style={styles.ratingPreview}>
+              <Text style={styles.ratingPreviewLabel}>If confirmed</Text>
+              <View style={styles.ratingPreviewRow}>
+                {ratingPreview.map(p => (
+                  <View key={p.id} style={styles.ratingPreviewChip}>
+                    <Text style={styles.ratingPreviewName}>{p.name}</Text>
+                    <Text style={[styles.ratingPreviewDelta, p.delta < 0 && styles.ratingPreviewDeltaLoss]}>
+                      {p.delta > 0 ? `+${p.delta}` : p.delta}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            </View>
+          )}
+
           {/* Actions - Save is the only strong CTA */}
           <View style={styles.actions}>
             <Animated.View style={animatedSaveButtonStyle}>
@@ -695,7 +752,7 @@ export function LogMatchSheet({
                   </View>
                 ) : (
                   <Text style={[styles.saveButtonText, !canSave && styles.saveButtonTextDisabled]}>
-                    Save
+                    {saveLabel}
                   </Text>
                 )}
               </Pressable>
@@ -762,6 +819,25 @@ const styles = StyleSheet.create({
     marginTop: spacing.xs,
     fontWeight: '500',
   },
+  formatLabel: {
+    color: colors.textMuted,
+    fontSize: 12,
+    marginTop: 2,
+  },
+  scoreLiveButton: {
+    marginTop: spacing.sm,
+  },
+  scoreLiveText: {
+    color: colors.accent,
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  matchErrorText: {
+    color: '#F59E0B',
+    fontSize: 12,
+    textAlign: 'center',
+    marginTop: spacing.xs,
+  },
   gameChipsWrapper: {
     position: 'relative',
     marginBottom: spacing.sm,
@@ -848,6 +924,45 @@ const styles = StyleSheet.create({
     color: colors.textMuted,
     opacity: 0.5,
   },
+  ratingPreview: {
+    paddingHorizontal: spacing.lg,
+    marginBottom: spacing.md,
+  },
+  ratingPreviewLabel: {
+    color: colors.textMuted,
+    fontSize: 11,
+    fontWeight: '600',
+    letterSpacing: 0.5,
+    textTransform: 'uppercase',
+    marginBottom: spacing.xs,
+  },
+  ratingPreviewRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+  },
+  ratingPreviewChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    backgroundColor: colors.whiteSubtle,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.full,
+  },
+  ratingPreviewName: {
+    color: colors.textSecondary,
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  ratingPreviewDelta: {
+    color: colors.accent,
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  ratingPreviewDeltaLoss: {
+    color: colors.red,
+  },
   actions: {
     paddingHorizontal: spacing.lg,
     gap: spacing.sm,
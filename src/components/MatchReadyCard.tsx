@@ -21,13 +21,11 @@ import { Gesture, GestureDetector } from 'react-native-gesture-handler';
 import * as Haptics from 'expo-haptics';
 import { Info, X } from 'lucide-react-native';
 import { colors, spacing, borderRadius } from '../theme/colors';
-import type { Player } from '../types';
-
-// Helper to convert Elo to display rating
-function eloToRating(elo: number): string {
-  const rating = 2.0 + (elo - 800) * (5.5 - 2.0) / (2000 - 800);
-  return Math.max(2.0, Math.min(5.5, rating)).toFixed(1);
-}
+import type { Player, RatingModel } from '../types';
+import { useRatingStore } from '../store';
+import { eloToRating, getModeElo, previewMatch, toPreviewPlayer } from '../utils';
+import type { LivePrompt } from '../utils';
+import { MatchStakesPreview } from './MatchStakesPreview';
 
 /** Past match record against a specific opponent */
 interface MatchHistory {
@@ -73,6 +71,12 @@ interface MatchReadyCardProps {
   matchHistory?: MatchHistory[];
   /** Current team combo win/loss record (doubles sessions) */
   comboRecord?: { wins: number; losses: number };
+  /** Rating model of the court's league, used for the stakes preview */
+  ratingModel?: RatingModel;
+  /** Called score ("4-2-1") while the game is being scored live */
+  liveScoreCall?: string;
+  /** Side-switch, timeout and clock reminders while the game is being scored live */
+  livePrompts?: LivePrompt[];
   /** DEV ONLY: Force trigger the 5-minute nudge glow immediately */
   __devTriggerNudge?: boolean;
 }
@@ -110,20 +114,27 @@ export function MatchReadyCard({
   isNewMatch = true,
   matchHistory = [],
   comboRecord,
+  ratingModel,
+  liveScoreCall,
+  livePrompts = [],
   __devTriggerNudge = false,
 }: MatchReadyCardProps) {
   const [detailsOpen, setDetailsOpen] = useState(false);
   const [hasAnimated, setHasAnimated] = useState(false);
+  const { getRating } = useRatingStore();
 
   const teamANames = teamA.map(p => p.name.split(' ')[0]).join(' + ');
   const teamBNames = teamB.map(p => p.name.split(' ')[0]).join(' + ');
 
   // Calculate team averages
-  const teamAAvgElo = teamA.reduce((sum, p) => sum + p.elo, 0) / teamA.length;
-  const teamBAvgElo = teamB.reduce((sum, p) => sum + p.elo, 0) / teamB.length;
+  const mode = teamA.length > 1 ? 'doubles' : 'singles';
+  const teamAAvgElo = teamA.reduce((sum, p) => sum + getModeElo(p, mode), 0) / teamA.length;
+  const teamBAvgElo = teamB.reduce((sum, p) => sum + getModeElo(p, mode), 0) / teamB.length;
   const teamAAvgRating = eloToRating(teamAAvgElo);
   const teamBAvgRating = eloToRating(teamBAvgElo);
   const matchDifficulty = getMatchDifficulty(teamAAvgElo, teamBAvgElo);
+  const toPreview = (p: Player) => toPreviewPlayer(p, mode, getRating(p.id, mode));
+  const preview = previewMatch(teamA.map(toPreview), teamB.map(toPreview), ratingModel);
 
   // Animation values
   const borderGlow = useSharedValue(0);
@@ -321,6 +332,32 @@ export function MatchReadyCard({
             {teamANames} vs {teamBNames}
           </Animated.Text>
 
+          {/* Live play: called score and rule reminders */}
+          {liveScoreCall && (
+            <Animated.View style={styles.liveSection} entering={FadeIn.duration(200)}>
+              <View style={styles.liveHeader}>
+                <View style={styles.liveDot} />
+                <Text style={styles.liveLabel}>Live</Text>
+                <Text style={styles.liveScoreCall}>{liveScoreCall}</Text>
+              </View>
+              {livePrompts.map(prompt => (
+                <Text
+                  key={prompt.type}
+                  style={[styles.livePrompt, prompt.tone === 'alert' && styles.livePromptAlert]}
+                >
+                  {prompt.message}
+                </Text>
+              ))}
+            </Animated.View>
+          )}
+
+          <Animated.View
+            style={styles.stakesPreview}
+            entering={FadeIn.delay(500).duration(300)}
+          >
+            <MatchStakesPreview preview={preview} teamALabel={teamANames} teamBLabel={teamBNames} />
+          </Animated.View>
+
           {!isLastGame && !onSubmitScore && (
             <Animated.Text
               style={styles.helper}
@@ -571,6 +608,47 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  liveSection: {
+    marginTop: spacing.md,
+    padding: spacing.sm,
+    borderRadius: borderRadius.md,
+    backgroundColor: colors.whiteSubtle,
+    gap: spacing.xs,
+  },
+  liveHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  liveDot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: colors.red,
+  },
+  liveLabel: {
+    color: colors.textSecondary,
+    fontSize: 12,
+    fontWeight: '600',
+    flex: 1,
+  },
+  liveScoreCall: {
+    color: colors.white,
+    fontSize: 18,
+    fontWeight: '700',
+    letterSpacing: 1,
+  },
+  livePrompt: {
+    color: colors.textMuted,
+    fontSize: 12,
+  },
+  livePromptAlert: {
+    color: '#F59E0B',
+    fontWeight: '600',
+  },
+  stakesPreview: {
+    marginTop: spacing.md,
+  },
   difficultySection: {
     alignItems: 'center',
     marginBottom: spacing.lg,
@@ -0,0 +1,120 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { colors, spacing, borderRadius } from '../theme/colors';
+import type { MatchPreview } from '../utils';
+
+interface MatchStakesPreviewProps {
+  preview: MatchPreview;
+  /** Player whose win/loss stakes are shown (defaults to the first player on team A) */
+  playerId?: string;
+  teamALabel?: string;
+  teamBLabel?: string;
+}
+
+function formatDelta(delta: number): string {
+  return delta > 0 ? `+${delta}` : `${delta}`;
+}
+
+export function MatchStakesPreview({
+  preview,
+  playerId,
+  teamALabel = 'You',
+  teamBLabel = 'Them',
+}: MatchStakesPreviewProps) {
+  const stakes = [...preview.teamA, ...preview.teamB].find(s => s.id === playerId) ?? preview.teamA[0];
+  const spread = preview.projectedSpread;
+  const spreadLabel = spread === 0
+    ? 'Even game projected'
+    : `${spread > 0 ? teamALabel : teamBLabel} by ${Math.abs(spread)} pts/game`;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.probabilityRow}>
+        <Text style={styles.probabilityText}>
+          {teamALabel} <Text style={styles.probabilityValue}>{preview.teamAWinProbability}%</Text>
+        </Text>
+        <Text style={styles.probabilityText}>
+          <Text style={styles.probabilityValue}>{preview.teamBWinProbability}%</Text> {teamBLabel}
+        </Text>
+      </View>
+
+      <View style={styles.barTrack}>
+        <View style={[styles.barTeamA, { flex: preview.teamAWinProbability }]} />
+        <View style={[styles.barTeamB, { flex: preview.teamBWinProbability }]} />
+      </View>
+
+      <View style={styles.detailsRow}>
+        <Text style={styles.spreadText}>{spreadLabel}</Text>
+        {stakes && (
+          <View style={styles.stakesRow}>
+            <Text style={styles.stakesWin}>Win {formatDelta(stakes.ifWin)}</Text>
+            <Text style={styles.stakesDivider}>·</Text>
+            <Text style={styles.stakesLoss}>Loss {formatDelta(stakes.ifLoss)}</Text>
+          </View>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    gap: spacing.sm,
+  },
+  probabilityRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  probabilityText: {
+    color: colors.textMuted,
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  probabilityValue: {
+    color: colors.white,
+    fontWeight: '700',
+  },
+  barTrack: {
+    flexDirection: 'row',
+    height: 6,
+    borderRadius: borderRadius.full,
+    overflow: 'hidden',
+    gap: 2,
+  },
+  barTeamA: {
+    backgroundColor: colors.accent,
+  },
+  barTeamB: {
+    backgroundColor: colors.whiteLight,
+  },
+  detailsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  spreadText: {
+    color: colors.textMuted,
+    fontSize: 11,
+    fontWeight: '500',
+  },
+  stakesRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  stakesWin: {
+    color: colors.accent,
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  stakesDivider: {
+    color: colors.textMuted,
+    fontSize: 11,
+  },
+  stakesLoss: {
+    color: colors.red,
+    fontSize: 11,
+    fontWeight: '600',
+  },
+});
@@ -68,7 +68,7 @@ export function MatchSubmittedModal({
   const avgOpponentElo = opponentElo ?? (match?.teamB?.[0]?.ratingBefore ?? 1200);
   const newElo = getNewElo(userElo, avgOpponentElo, isWin);
 
-  // Convert to display ratings (2.0-6.0 scale)
+  // Convert to display ratings (current scale)
   const oldRating = eloToRating(userElo);
   const newRating = eloToRating(newElo);
   const ratingDelta = (parseFloat(newRating) - parseFloat(oldRating)).toFixed(1);
@@ -10,7 +10,7 @@ import Animated, {
 } from 'react-native-reanimated';
 import { colors, spacing, borderRadius } from '../theme/colors';
 import type { Team } from '../types';
-import { eloToRating } from '../utils';
+import { eloToRating, isProvisional } from '../utils';
 
 const AnimatedPressable = Animated.createAnimatedComponent(Pressable);
 
@@ -87,6 +87,9 @@ export function PendingChallengeCard({
           />
           <Text style={styles.playerName}>{acceptedTeam.player1.name}</Text>
           <Text style={styles.playerElo}>{formatRating(acceptedTeam.player1.elo)}</Text>
+          {isProvisional(acceptedTeam.player1.ratings?.doubles) && (
+            <Text style={styles.provisionalText}>Provisional</Text>
+          )}
         </View>
 
         <View style={styles.playerColumn}>
@@ -96,6 +99,9 @@ export function PendingChallengeCard({
           />
           <Text style={styles.playerName}>{acceptedTeam.player2.name}</Text>
           <Text style={styles.playerElo}>{formatRating(acceptedTeam.player2.elo)}</Text>
+          {isProvisional(acceptedTeam.player2.ratings?.doubles) && (
+            <Text style={styles.provisionalText}>Provisional</Text>
+          )}
         </View>
       </View>
 
@@ -201,6 +207,12 @@ const styles = StyleSheet.create({
     color: colors.textSecondary,
     fontSize: 12,
   },
+  provisionalText: {
+    color: 'rgba(255, 193, 7, 0.9)',
+    fontSize: 10,
+    fontWeight: '500',
+    marginTop: 2,
+  },
   ctaText: {
     color: colors.accent,
     fontSize: 16,
@@ -7,8 +7,8 @@ import Animated, {
   FadeInDown,
 } from 'react-native-reanimated';
 import { colors, spacing, borderRadius } from '../theme/colors';
-import type { Player } from '../types';
-import { eloToRating } from '../utils';
+import type { Player, GameMode } from '../types';
+import { eloToRating, getModeElo, isProvisional } from '../utils';
 
 const AnimatedPressable = Animated.createAnimatedComponent(Pressable);
 
@@ -21,6 +21,7 @@ interface PlayerCardProps {
   isCooldown?: boolean;
   isNextGameRequested?: boolean;
   isCurrentUser?: boolean; // Highlight current user's card
+  mode?: GameMode; // Which rating to show
   index?: number;
 }
 
@@ -33,12 +34,14 @@ export function PlayerCard({
   isCooldown = false,
   isNextGameRequested = false,
   isCurrentUser = false,
+  mode = 'singles',
   index = 0,
 }: PlayerCardProps) {
   const isReady = player.status === 'Ready';
   const isWaiting = player.status === 'Waiting';
   const isOnCourt = player.status.startsWith('On Court');
   const canChallenge = (isReady || isWaiting) && !isOnCourt;
+  const provisional = isProvisional(player.ratings?.[mode]);
 
   const scale = useSharedValue(1);
 
@@ -167,7 +170,12 @@ export function PlayerCard({
           )}
         </View>
         {/* Hero rating */}
-        <Text style={styles.heroRating}>{eloToRating(player.elo)}</Text>
+        <View style={styles.ratingColumn}>
+          <Text style={styles.heroRating}>{eloToRating(getModeElo(player, mode))}</Text>
+          {provisional && (
+            <Text style={styles.provisionalText}>Provisional</Text>
+          )}
+        </View>
       </View>
 
       {renderCTA()}
@@ -242,12 +250,20 @@ const styles = StyleSheet.create({
     fontSize: 11,
     fontWeight: '500',
   },
+  ratingColumn: {
+    alignItems: 'flex-end',
+  },
   heroRating: {
     color: colors.white,
     fontWeight: '500',
     fontSize: 28,
     letterSpacing: -0.5,
   },
+  provisionalText: {
+    color: 'rgba(255, 193, 7, 0.9)',
+    fontSize: 10,
+    fontWeight: '500',
+  },
   challengeButton: {
     backgroundColor: colors.accent,
     paddingVertical: spacing.md,
@@ -50,10 +50,16 @@ import {
   Star,
   Flame,
   Award,
+  ShieldAlert,
 } from 'lucide-react-native';
 import { colors, spacing, borderRadius } from '../theme/colors';
-import { eloToRating } from '../utils/rating';
+import { eloToRating, createPlayerRatings, getWinRate, isProvisional } from '../utils/rating';
+import { isReturning } from '../utils/inactivity';
+import { RATING } from '../constants';
+import { useRatingStore, useRatingHistoryStore, useMatchStore } from '../store';
+import type { RatingHistoryEntry, RatingHistoryRange } from '../store';
 import type { CurrentUser } from '../types';
+import { RatingHistoryChart } from './RatingHistoryChart';
 
 const AnimatedPressable = Animated.createAnimatedComponent(Pressable);
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
@@ -75,11 +81,10 @@ interface ProfileScreenProps {
   onClose?: () => void;
   onSwipeToActivity?: () => void;
   user: CurrentUser | null;
-  singlesRating?: number;
-  doublesRating?: number;
   onUpdateName?: (name: string) => void;
   onUpdateAvatar?: (uri: string) => void;
   onMatchHistory?: () => void;
+  onReviewQueue?: () => void;
 }
 
 // Premium stat card component
@@ -119,12 +124,25 @@ function RatingCard({
   rating,
   gamesPlayed,
   winRate,
+  returningMatchesLeft,
+  lastDelta,
+  history,
+  historyRange,
+  onHistoryRangeChange,
   index,
 }: {
   type: 'singles' | 'doubles';
   rating: number;
   gamesPlayed: number;
   winRate: number;
+  /** Matches left that move faster after a break (0/undefined when not returning) */
+  returningMatchesLeft?: number;
+  /** ELO change from the most recent confirmed match */
+  lastDelta?: number;
+  /** Rating history for the selected range, oldest first */
+  history: RatingHistoryEntry[];
+  historyRange: RatingHistoryRange;
+  onHistoryRangeChange: (range: RatingHistoryRange) => void;
   index: number;
 }) {
   const displayRating = rating ? eloToRating(rating) : '—';
@@ -149,11 +167,34 @@ function RatingCard({
           <View style={styles.ratingIconBg}>
             <Icon size={16} color={colors.accent} />
           </View>
-          <Text style={styles.ratingTypeLabel}>
-            {type === 'singles' ? 'Singles' : 'Doubles'}
-          </Text>
+          <View>
+            <Text style={styles.ratingTypeLabel}>
+              {type === 'singles' ? 'Singles' : 'Doubles'}
+            </Text>
+            {isProvisional({ gamesPlayed }) ? (
+              <Text style={styles.ratingProvisionalText}>
+                Provisional · {gamesPlayed}/{RATING.PROVISIONAL_MATCHES} placement
+              </Text>
+            ) : isReturning({ returningMatchesLeft }) ? (
+              <Text style={styles.ratingProvisionalText}>
+                Returning · adjusts faster for {returningMatchesLeft} more
+              </Text>
+            ) : null}
+          </View>
+        </View>
+        <View style={styles.ratingValueRow}>
+          {lastDelta !== undefined && lastDelta !== 0 && (
+            <Animated.View
+              style={[styles.ratingDeltaChip, lastDelta < 0 && styles.ratingDeltaChipLoss]}
+              entering={FadeIn.delay(500 + index * 100).duration(300)}
+            >
+              <Text style={[styles.ratingDeltaText, lastDelta < 0 && styles.ratingDeltaTextLoss]}>
+                {lastDelta > 0 ? `+${lastDelta}` : lastDelta}
+              </Text>
+            </Animated.View>
+          )}
+          <Text style={styles.ratingMainValue}>{displayRating}</Text>
         </View>
-        <Text style={styles.ratingMainValue}>{displayRating}</Text>
       </View>
 
       <View style={styles.ratingStatsRow}>
@@ -172,6 +213,12 @@ function RatingCard({
       <View style={styles.progressBarContainer}>
         <Animated.View style={[styles.progressBar, progressStyle]} />
       </View>
+
+      <RatingHistoryChart
+        entries={history}
+        range={historyRange}
+        onRangeChange={onHistoryRangeChange}
+      />
     </Animated.View>
   );
 }
@@ -268,14 +315,21 @@ export function ProfileScreen({
   onClose,
   onSwipeToActivity,
   user,
-  singlesRating = 1200,
-  doublesRating = 1200,
   onUpdateName,
   onUpdateAvatar,
   onMatchHistory,
+  onReviewQueue,
 }: ProfileScreenProps) {
   const [isEditingName, setIsEditingName] = useState(false);
   const [editedName, setEditedName] = useState('');
+  const { getLatestChange } = useRatingStore();
+  const latestChange = user ? getLatestChange(user.id) : undefined;
+  const ratings = user?.ratings ?? createPlayerRatings();
+  const { getHistoryInRange } = useRatingHistoryStore();
+  const { reviewQueue, escalatedMatches, openDisputes } = useMatchStore();
+  const reviewCount = reviewQueue.length + escalatedMatches.length + openDisputes.length;
+  const [singlesRange, setSinglesRange] = useState<RatingHistoryRange>('90d');
+  const [doublesRange, setDoublesRange] = useState<RatingHistoryRange>('90d');
 
   // Animation values
   const screenOpacity = useSharedValue(0);
@@ -556,16 +610,26 @@ export function ProfileScreen({
           <Text style={styles.sectionTitle}>Ratings</Text>
           <RatingCard
             type="singles"
-            rating={singlesRating}
-            gamesPlayed={28}
-            winRate={64}
+            rating={ratings.singles.elo}
+            gamesPlayed={ratings.singles.gamesPlayed}
+            winRate={getWinRate(ratings.singles)}
+            returningMatchesLeft={ratings.singles.returningMatchesLeft}
+            lastDelta={latestChange?.mode === 'singles' ? latestChange.delta : undefined}
+            history={user ? getHistoryInRange(user.id, 'singles', singlesRange) : []}
+            historyRange={singlesRange}
+            onHistoryRangeChange={setSinglesRange}
             index={0}
           />
           <RatingCard
             type="doubles"
-            rating={doublesRating}
-            gamesPlayed={19}
-            winRate={58}
+            rating={ratings.doubles.elo}
+            gamesPlayed={ratings.doubles.gamesPlayed}
+            winRate={getWinRate(ratings.doubles)}
+            returningMatchesLeft={ratings.doubles.returningMatchesLeft}
+            lastDelta={latestChange?.mode === 'doubles' ? latestChange.delta : undefined}
+            history={user ? getHistoryInRange(user.id, 'doubles', doublesRange) : []}
+            historyRange={doublesRange}
+            onHistoryRangeChange={setDoublesRange}
             index={1}
           />
 
@@ -604,11 +668,19 @@ export function ProfileScreen({
               onPress={() => {}}
               index={1}
             />
+            {onReviewQueue && (
+              <MenuItem
+                icon={ShieldAlert}
+                label={reviewCount > 0 ? `Review queue (${reviewCount})` : 'Review queue'}
+                onPress={onReviewQueue}
+                index={2}
+              />
+            )}
             <MenuItem
               icon={HelpCircle}
               label="Help & Support"
               onPress={() => {}}
-              index={2}
+              index={3}
             />
             <MenuItem
               icon={LogOut}
@@ -621,7 +693,7 @@ export function ProfileScreen({
               }}
               danger
               showChevron={false}
-              index={3}
+              index={4}
             />
           </View>
 
@@ -859,6 +931,34 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  ratingProvisionalText: {
+    color: 'rgba(255, 193, 7, 0.9)',
+    fontSize: 11,
+    fontWeight: '500',
+    marginTop: 2,
+  },
+  ratingValueRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  ratingDeltaChip: {
+    backgroundColor: 'rgba(57, 255, 20, 0.12)',
+    paddingHorizontal: spacing.sm,
+    paddingVertical: 2,
+    borderRadius: borderRadius.full,
+  },
+  ratingDeltaChipLoss: {
+    backgroundColor: 'rgba(239, 68, 68, 0.12)',
+  },
+  ratingDeltaText: {
+    color: colors.accent,
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  ratingDeltaTextLoss: {
+    color: colors.red,
+  },
   ratingMainValue: {
     color: colors.white,
     fontSize: 36,
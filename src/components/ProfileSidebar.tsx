@@ -46,8 +46,6 @@ interface ProfileSidebarProps {
   visible: boolean;
   onClose: () => void;
   user: CurrentUser | null;
-  singlesRating?: number;
-  doublesRating?: number;
   onUpdateName?: (name: string) => void;
   onUpdateAvatar?: (uri: string) => void;
   onMatchHistory?: () => void;
@@ -57,8 +55,6 @@ export function ProfileSidebar({
   visible,
   onClose,
   user,
-  singlesRating,
-  doublesRating,
   onUpdateName,
   onUpdateAvatar,
   onMatchHistory,
@@ -229,8 +225,8 @@ export function ProfileSidebar({
     return null;
   }
 
-  const singlesDisplay = singlesRating ? eloToRating(singlesRating) : '—';
-  const doublesDisplay = doublesRating ? eloToRating(doublesRating) : '—';
+  const singlesDisplay = user ? eloToRating(user.ratings.singles.elo) : '—';
+  const doublesDisplay = user ? eloToRating(user.ratings.doubles.elo) : '—';
   const displayName = user?.name || 'First Last';
 
   return (
@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { View, Text, Pressable, StyleSheet, LayoutChangeEvent } from 'react-native';
+import Svg, { Polyline, Circle, Line } from 'react-native-svg';
+import * as Haptics from 'expo-haptics';
+import { colors, spacing, borderRadius } from '../theme/colors';
+import { eloToRating } from '../utils/rating';
+import type { RatingHistoryEntry, RatingHistoryRange } from '../store';
+
+interface RatingHistoryChartProps {
+  /** Entries for the selected range, oldest first */
+  entries: RatingHistoryEntry[];
+  range: RatingHistoryRange;
+  onRangeChange: (range: RatingHistoryRange) => void;
+}
+
+const CHART_HEIGHT = 72;
+const CHART_PADDING = 6;
+
+const RANGE_OPTIONS: { value: RatingHistoryRange; label: string }[] = [
+  { value: '30d', label: '30D' },
+  { value: '90d', label: '90D' },
+  { value: 'all', label: 'All' },
+];
+
+export function RatingHistoryChart({ entries, range, onRangeChange }: RatingHistoryChartProps) {
+  const [width, setWidth] = useState(0);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  const handleRangePress = (value: RatingHistoryRange) => {
+    if (value === range) return;
+    Haptics.selectionAsync();
+    onRangeChange(value);
+  };
+
+  // First point is the rating going into the oldest match in range
+  const values = entries.length > 0
+    ? [entries[0].ratingBefore, ...entries.map(e => e.ratingAfter)]
+    : [];
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const span = max - min || 1;
+
+  const points = values.map((value, i) => {
+    const x = CHART_PADDING + (i / (values.length - 1)) * (width - CHART_PADDING * 2);
+    const y = CHART_PADDING + (1 - (value - min) / span) * (CHART_HEIGHT - CHART_PADDING * 2);
+    return { x, y };
+  });
+  const lastPoint = points[points.length - 1];
+
+  const change = values.length > 0 ? values[values.length - 1] - values[0] : 0;
+  const isDown = change < 0;
+  const lineColor = isDown ? colors.red : colors.accent;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.headerRow}>
+        <Text style={[styles.changeText, isDown && styles.changeTextDown]}>
+          {values.length === 0
+            ? 'No rated matches'
+            : `${change >= 0 ? '+' : ''}${change} ELO · ${entries.length} ${entries.length === 1 ? 'match' : 'matches'}`}
+        </Text>
+        <View style={styles.rangeToggle}>
+          {RANGE_OPTIONS.map(option => (
+            <Pressable
+              key={option.value}
+              style={[styles.rangeButton, option.value === range && styles.rangeButtonActive]}
+              onPress={() => handleRangePress(option.value)}
+            >
+              <Text style={[styles.rangeText, option.value === range && styles.rangeTextActive]}>
+                {option.label}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+      </View>
+
+      <View style={styles.chartArea} onLayout={handleLayout}>
+        {width > 0 && points.length > 1 && (
+          <Svg width={width} height={CHART_HEIGHT}>
+            <Line
+              x1={CHART_PADDING}
+              y1={points[0].y}
+              x2={width - CHART_PADDING}
+              y2={points[0].y}
+              stroke={colors.whiteMedium}
+              strokeWidth={1}
+              strokeDasharray="3,4"
+            />
+            <Polyline
+              points={points.map(p => `${p.x},${p.y}`).join(' ')}
+              fill="none"
+              stroke={lineColor}
+              strokeWidth={2}
+              strokeLinejoin="round"
+              strokeLinecap="round"
+            />
+            <Circle cx={lastPoint.x} cy={lastPoint.y} r={3.5} fill={lineColor} />
+          </Svg>
+        )}
+        {width > 0 && points.length <= 1 && (
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyText}>Play a rated match to start your chart</Text>
+          </View>
+        )}
+      </View>
+
+      {values.length > 1 && (
+        <View style={styles.axisRow}>
+          <Text style={styles.axisText}>Low {eloToRating(min)}</Text>
+          <Text style={styles.axisText}>High {eloToRating(max)}</Text>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: spacing.lg,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+  },
+  changeText: {
+    color: colors.accent,
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  changeTextDown: {
+    color: colors.red,
+  },
+  rangeToggle: {
+    flexDirection: 'row',
+    backgroundColor: colors.whiteSubtle,
+    borderRadius: borderRadius.full,
+    padding: 2,
+  },
+  rangeButton: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: 3,
+    borderRadius: borderRadius.full,
+  },
+  rangeButtonActive: {
+    backgroundColor: colors.whiteLight,
+  },
+  rangeText: {
+    color: colors.textMuted,
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  rangeTextActive: {
+    color: colors.white,
+  },
+  chartArea: {
+    height: CHART_HEIGHT,
+  },
+  emptyState: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  emptyText: {
+    color: colors.textMuted,
+    fontSize: 12,
+  },
+  axisRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: spacing.xs,
+  },
+  axisText: {
+    color: colors.textMuted,
+    fontSize: 10,
+    fontWeight: '500',
+  },
+});
@@ -0,0 +1,375 @@
+import React from 'react';
+import { View, Text, StyleSheet, ScrollView, Pressable, Alert } from 'react-native';
+import Animated, { FadeIn, FadeInDown } from 'react-native-reanimated';
+import * as Haptics from 'expo-haptics';
+import { X, ShieldAlert, Clock, Flag } from 'lucide-react-native';
+import { colors, spacing, borderRadius } from '../theme/colors';
+import { useMatchStore } from '../store';
+import type { DisputeReason, Match } from '../store';
+import type { AnomalyType } from '../utils';
+
+const FLAG_LABELS: Record<AnomalyType, string> = {
+  closed_group: 'Closed group',
+  upset_swing: 'Upset swing',
+  score_pattern: 'Score pattern',
+};
+
+const DISPUTE_REASON_LABELS: Record<DisputeReason, string> = {
+  wrong_score: 'Wrong score',
+  wrong_players: 'Wrong players',
+  did_not_play: "Didn't play",
+  other: 'Other issue',
+};
+
+interface ReviewQueueScreenProps {
+  onClose: () => void;
+}
+
+function teamNames(team: Match['teamA']): string {
+  return team.map(p => p.name.split(' ')[0]).join(' & ');
+}
+
+function MatchSummary({ match }: { match: Match }) {
+  return (
+    <>
+      <Text style={styles.matchup}>
+        {teamNames(match.teamA)} vs {teamNames(match.teamB)}
+      </Text>
+      <Text style={styles.meta}>
+        {match.courtName} · {new Date(match.createdAt).toLocaleDateString()} ·{' '}
+        {match.games.map(g => `${g.teamAScore}-${g.teamBScore}`).join(', ')}
+      </Text>
+    </>
+  );
+}
+
+/**
+ * ReviewQueueScreen - Works through matches held for a decision
+ *
+ * Flagged matches (anomaly detection) are approved, which rates them if confirmed,
+ * or rejected, which voids them. Escalated matches whose confirmation window closed
+ * are confirmed as logged or left to expire. Contested matches that the players
+ * didn't settle with a correction are upheld as logged or voided.
+ */
+export function ReviewQueueScreen({ onClose }: ReviewQueueScreenProps) {
+  const {
+    reviewQueue,
+    escalatedMatches,
+    openDisputes,
+    canReview,
+    approveReview,
+    rejectReview,
+    resolveEscalation,
+    resolveDispute,
+  } = useMatchStore();
+
+  const handleApprove = (match: Match) => {
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    approveReview(match.id);
+  };
+
+  const handleReject = (match: Match) => {
+    Alert.alert('Reject match?', 'The match is voided and never counts toward ratings.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Reject',
+        style: 'destructive',
+        onPress: () => {
+          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+          rejectReview(match.id);
+        },
+      },
+    ]);
+  };
+
+  const handleEscalation = (match: Match, outcome: 'confirm' | 'expire') => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    resolveEscalation(match.id, outcome);
+  };
+
+  const handleUphold = (match: Match) => {
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    resolveDispute(match.id, 'upheld');
+  };
+
+  const handleVoid = (match: Match) => {
+    Alert.alert('Void match?', 'The result is thrown out and any rating change from it is undone.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Void',
+        style: 'destructive',
+        onPress: () => {
+          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+          resolveDispute(match.id, 'voided');
+        },
+      },
+    ]);
+  };
+
+  const isEmpty = reviewQueue.length === 0 && escalatedMatches.length === 0 && openDisputes.length === 0;
+
+  return (
+    <Animated.View entering={FadeIn.duration(250)} style={styles.container}>
+      <View style={styles.header}>
+        <View style={styles.headerSpacer} />
+        <Text style={styles.headerTitle}>Review queue</Text>
+        <Pressable
+          style={styles.closeButton}
+          onPress={onClose}
+          hitSlop={{ top: 12, bottom: 12, left: 12, right: 12 }}
+        >
+          <X size={22} color={colors.textSecondary} />
+        </Pressable>
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        {isEmpty && <Text style={styles.emptyText}>Nothing waiting for review</Text>}
+
+        {reviewQueue.length > 0 && (
+          <Text style={styles.sectionTitle}>Flagged matches</Text>
+        )}
+        {reviewQueue.map((match, index) => (
+          <Animated.View key={match.id} entering={FadeInDown.delay(index * 50).duration(300)} style={styles.card}>
+            <View style={styles.cardHeader}>
+              <ShieldAlert size={16} color="#F59E0B" />
+              <Text style={styles.cardLabel}>In review</Text>
+            </View>
+            <MatchSummary match={match} />
+            {match.anomalyFlags?.map(flag => (
+              <Text key={flag.type} style={styles.flagText}>
+                {FLAG_LABELS[flag.type]}: {flag.detail}
+              </Text>
+            ))}
+            {canReview(match) ? (
+              <View style={styles.actions}>
+                <Pressable style={styles.secondaryButton} onPress={() => handleReject(match)}>
+                  <Text style={styles.rejectText}>Reject</Text>
+                </Pressable>
+                <Pressable style={styles.primaryButton} onPress={() => handleApprove(match)}>
+                  <Text style={styles.primaryButtonText}>Approve</Text>
+                </Pressable>
+              </View>
+            ) : (
+              <Text style={styles.ownMatchText}>You played in this match, so another reviewer decides it</Text>
+            )}
+          </Animated.View>
+        ))}
+
+        {escalatedMatches.length > 0 && (
+          <Text style={[styles.sectionTitle, reviewQueue.length > 0 && styles.sectionSpacing]}>
+            Unconfirmed after the window
+          </Text>
+        )}
+        {escalatedMatches.map((match, index) => (
+          <Animated.View key={match.id} entering={FadeInDown.delay(index * 50).duration(300)} style={styles.card}>
+            <View style={styles.cardHeader}>
+              <Clock size={16} color={colors.textMuted} />
+              <Text style={[styles.cardLabel, styles.cardLabelMuted]}>Escalated</Text>
+            </View>
+            <MatchSummary match={match} />
+            {canReview(match) ? (
+              <View style={styles.actions}>
+                <Pressable style={styles.secondaryButton} onPress={() => handleEscalation(match, 'expire')}>
+                  <Text style={styles.secondaryButtonText}>Let expire</Text>
+                </Pressable>
+                <Pressable style={styles.primaryButton} onPress={() => handleEscalation(match, 'confirm')}>
+                  <Text style={styles.primaryButtonText}>Confirm</Text>
+                </Pressable>
+              </View>
+            ) : (
+              <Text style={styles.ownMatchText}>You played in this match, so another reviewer decides it</Text>
+            )}
+          </Animated.View>
+        ))}
+
+        {openDisputes.length > 0 && (
+          <Text
+            style={[
+              styles.sectionTitle,
+              (reviewQueue.length > 0 || escalatedMatches.length > 0) && styles.sectionSpacing,
+            ]}
+          >
+            Contested
+          </Text>
+        )}
+        {openDisputes.map((match, index) => (
+          <Animated.View key={match.id} entering={FadeInDown.delay(index * 50).duration(300)} style={styles.card}>
+            <View style={styles.cardHeader}>
+              <Flag size={16} color="#F59E0B" />
+              <Text style={styles.cardLabel}>Disputed</Text>
+            </View>
+            <MatchSummary match={match} />
+            {match.dispute && (
+              <Text style={styles.flagText}>
+                {DISPUTE_REASON_LABELS[match.dispute.reason]}
+                {match.dispute.notes ? `: ${match.dispute.notes}` : ''}
+              </Text>
+            )}
+            {canReview(match) ? (
+              <View style={styles.actions}>
+                <Pressable style={styles.secondaryButton} onPress={() => handleVoid(match)}>
+                  <Text style={styles.rejectText}>Void</Text>
+                </Pressable>
+                <Pressable style={styles.primaryButton} onPress={() => handleUphold(match)}>
+                  <Text style={styles.primaryButtonText}>Uphold</Text>
+                </Pressable>
+              </View>
+            ) : (
+              <Text style={styles.ownMatchText}>You played in this match, so another reviewer decides it</Text>
+            )}
+          </Animated.View>
+        ))}
+
+        <View style={{ height: 120 }} />
+      </ScrollView>
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: colors.background,
+    zIndex: 60,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingTop: 60,
+    paddingHorizontal: spacing.xl,
+    paddingBottom: spacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.borderLight,
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  headerTitle: {
+    color: colors.white,
+    fontSize: 17,
+    fontWeight: '600',
+    letterSpacing: -0.3,
+  },
+  closeButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: colors.cardSecondary,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingTop: spacing.xl,
+    paddingHorizontal: spacing.lg,
+  },
+  emptyText: {
+    color: colors.textMuted,
+    fontSize: 15,
+    textAlign: 'center',
+    marginTop: spacing.xxl,
+  },
+  sectionTitle: {
+    color: colors.textSecondary,
+    fontSize: 13,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: spacing.md,
+    paddingHorizontal: spacing.xs,
+  },
+  sectionSpacing: {
+    marginTop: spacing.xl,
+  },
+  card: {
+    backgroundColor: colors.card,
+    borderRadius: borderRadius.xl,
+    padding: spacing.lg,
+    marginBottom: spacing.md,
+    borderWidth: 1,
+    borderColor: colors.borderLight,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  cardLabel: {
+    color: '#F59E0B',
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  cardLabelMuted: {
+    color: colors.textMuted,
+  },
+  matchup: {
+    color: colors.white,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  meta: {
+    color: colors.textMuted,
+    fontSize: 13,
+    marginTop: spacing.xs,
+  },
+  flagText: {
+    color: colors.textSecondary,
+    fontSize: 13,
+    marginTop: spacing.sm,
+  },
+  ownMatchText: {
+    color: colors.textMuted,
+    fontSize: 13,
+    fontStyle: 'italic',
+    marginTop: spacing.lg,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    marginTop: spacing.lg,
+  },
+  primaryButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.md,
+    backgroundColor: colors.accent,
+  },
+  primaryButtonText: {
+    color: colors.black,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.borderMedium,
+  },
+  secondaryButtonText: {
+    color: colors.textSecondary,
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  rejectText: {
+    color: colors.red,
+    fontSize: 14,
+    fontWeight: '500',
+  },
+});
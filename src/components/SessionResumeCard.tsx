@@ -0,0 +1,234 @@
+import React from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { History, Trophy, Users, X } from 'lucide-react-native';
+import { colors, spacing, borderRadius } from '../theme/colors';
+import type { DoublesSession, Player, SessionSummary } from '../types';
+
+function formatDuration(start: number, end: number): string {
+  const minutes = Math.max(0, Math.floor((end - start) / 60000));
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  return `${hours}h ${minutes % 60}m`;
+}
+
+function firstName(name: string): string {
+  return name.split(' ')[0];
+}
+
+interface SessionResumeCardProps {
+  session: DoublesSession;
+  onResume: () => void;
+  onEnd: () => void;
+}
+
+// Prompt shown after a relaunch when a doubles session was left unfinished
+export function SessionResumeCard({ session, onResume, onEnd }: SessionResumeCardProps) {
+  const names = (ids: string[]) =>
+    ids.map(id => firstName(session.players.find(p => p.id === id)?.name ?? 'Player')).join(' & ');
+  const lastActiveAt = session.lastActiveAt ?? session.startedAt;
+
+  const handleResume = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    onResume();
+  };
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <History size={16} color={colors.accent} />
+        <Text style={styles.label}>Unfinished session</Text>
+        <Text style={styles.meta}>{formatDuration(lastActiveAt, Date.now())} ago</Text>
+      </View>
+
+      <Text style={styles.title}>{names(session.teamA)} vs {names(session.teamB)}</Text>
+      <Text style={styles.subtitle}>
+        {session.courtName} · {session.games.length} game{session.games.length !== 1 ? 's' : ''} played
+      </Text>
+
+      <View style={styles.actions}>
+        <Pressable style={styles.secondaryButton} onPress={onEnd}>
+          <Text style={styles.secondaryButtonText}>End session</Text>
+        </Pressable>
+        <Pressable style={styles.primaryButton} onPress={handleResume}>
+          <Text style={styles.primaryButtonText}>Resume</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+interface SessionStartCardProps {
+  courtName: string;
+  players: Player[];
+  onStart: () => void;
+}
+
+// Offer to share the court with everyone checked in as one rotating session
+export function SessionStartCard({ courtName, players, onStart }: SessionStartCardProps) {
+  const handleStart = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    onStart();
+  };
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <Users size={16} color={colors.accent} />
+        <Text style={styles.label}>Open play</Text>
+        <Text style={styles.meta}>{players.length} players</Text>
+      </View>
+
+      <Text style={styles.title}>{players.map(p => firstName(p.name)).join(', ')}</Text>
+      <Text style={styles.subtitle}>{courtName} · partners rotate and sit-outs are shared</Text>
+
+      <View style={styles.actions}>
+        <Pressable style={styles.primaryButton} onPress={handleStart}>
+          <Text style={styles.primaryButtonText}>Start session</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+interface SessionSummaryCardProps {
+  summary: SessionSummary;
+  onDismiss: () => void;
+}
+
+// Wrap-up of a finished session: everyone's record and the pairing that won most
+export function SessionSummaryCard({ summary, onDismiss }: SessionSummaryCardProps) {
+  const nameOf = (id: string) => firstName(summary.players.find(p => p.playerId === id)?.name ?? 'Player');
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <Trophy size={16} color={colors.accent} />
+        <Text style={styles.label}>Session summary</Text>
+        <Pressable onPress={onDismiss} hitSlop={8}>
+          <X size={16} color={colors.textMuted} />
+        </Pressable>
+      </View>
+
+      <Text style={styles.subtitle}>
+        {summary.courtName} · {summary.gamesPlayed} game{summary.gamesPlayed !== 1 ? 's' : ''} ·{' '}
+        {formatDuration(summary.startedAt, summary.endedAt)}
+      </Text>
+      {summary.closedReason === 'idle' && (
+        <Text style={styles.note}>Closed automatically after it sat idle</Text>
+      )}
+
+      <View style={styles.records}>
+        {summary.players.map(player => (
+          <View key={player.playerId} style={styles.recordRow}>
+            <Text style={styles.recordName}>{player.name}</Text>
+            <Text style={styles.recordValue}>{player.wins}-{player.losses}</Text>
+          </View>
+        ))}
+      </View>
+
+      {summary.bestCombo && (
+        <Text style={styles.bestCombo}>
+          Best pairing: {nameOf(summary.bestCombo.player1Id)} & {nameOf(summary.bestCombo.player2Id)} (
+          {summary.bestCombo.wins}-{summary.bestCombo.losses})
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: colors.card,
+    borderRadius: borderRadius.xl,
+    padding: spacing.lg,
+    borderWidth: 1,
+    borderColor: colors.borderAccent,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    marginBottom: spacing.md,
+  },
+  label: {
+    flex: 1,
+    color: colors.accent,
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  meta: {
+    color: colors.textMuted,
+    fontSize: 12,
+  },
+  title: {
+    color: colors.white,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  subtitle: {
+    color: colors.textMuted,
+    fontSize: 14,
+    marginTop: spacing.xs,
+  },
+  note: {
+    color: colors.textMuted,
+    fontSize: 12,
+    fontStyle: 'italic',
+    marginTop: spacing.xs,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    marginTop: spacing.lg,
+  },
+  primaryButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.md,
+    backgroundColor: colors.accent,
+  },
+  primaryButtonText: {
+    color: colors.black,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.borderMedium,
+  },
+  secondaryButtonText: {
+    color: colors.textSecondary,
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  records: {
+    marginTop: spacing.md,
+    gap: spacing.xs,
+  },
+  recordRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  recordName: {
+    color: colors.textSecondary,
+    fontSize: 14,
+  },
+  recordValue: {
+    color: colors.white,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  bestCombo: {
+    color: colors.textMuted,
+    fontSize: 12,
+    marginTop: spacing.md,
+  },
+});
@@ -1,5 +1,5 @@
 import React, { useCallback, useMemo, useState, useRef } from 'react';
-import { View, Text, StyleSheet, Pressable, LayoutRectangle } from 'react-native';
+import { View, Text, StyleSheet, Pressable, Image, LayoutRectangle } from 'react-native';
 import Animated, {
   useSharedValue,
   useAnimatedStyle,
@@ -13,6 +13,7 @@ import { Gesture, GestureDetector } from 'react-native-gesture-handler';
 import * as Haptics from 'expo-haptics';
 import { colors, spacing, borderRadius } from '../theme/colors';
 import { DoublesSession, Player, TeamComboRecord, createTeamComboId } from '../types';
+import { getOnDeck } from '../utils';
 
 const AVATAR_SIZE = 60;
 
@@ -26,6 +27,8 @@ const SUBTLE_SPRING = { damping: 20, stiffness: 200, mass: 0.9 };
  *
  * Displays 4 player avatars (2 per team) that can be dragged to swap positions.
  * Uses proximity-based targeting - dragged avatar swaps with closest opposite team player.
+ * In sessions with more than 4 players, the players sitting out are listed below,
+ * with whoever rotates in next marked as on deck.
  *
  * @example
  * ```tsx
@@ -38,7 +41,7 @@ const SUBTLE_SPRING = { damping: 20, stiffness: 200, mass: 0.9 };
  * ```
  */
 interface TeamArrangementCardProps {
-  /** Current doubles session with 4 players and team arrangement */
+  /** Current doubles session with its players and team arrangement */
   session: DoublesSession;
   /** Called when players are swapped between teams */
   onArrangementChange: (teamA: [string, string], teamB: [string, string]) => void;
@@ -227,6 +230,16 @@ export function TeamArrangementCard({
     return session.teamB.map(id => session.players.find(p => p.id === id)!);
   }, [session.teamB, session.players]);
 
+  // Bench players, with who comes on for the next game
+  const sittingOutPlayers = useMemo(() => {
+    return session.sittingOut.map(id => session.players.find(p => p.id === id)!);
+  }, [session.sittingOut, session.players]);
+
+  const onDeckIds = useMemo(() => {
+    const { teamA, teamB, sittingOut } = session;
+    return getOnDeck(session.players.map(p => p.id), session.games, { teamA, teamB, sittingOut });
+  }, [session.players, session.games, session.teamA, session.teamB, session.sittingOut]);
+
   // Get current team combo record
   const currentComboRecord = useMemo((): TeamComboRecord | undefined => {
     const comboId = createTeamComboId(...session.teamA);
@@ -428,6 +441,29 @@ export function TeamArrangementCard({
         {teamAName} vs {teamBName}
       </Text>
 
+      {sittingOutPlayers.length > 0 && (
+        <View style={styles.bench}>
+          <Text style={styles.benchTitle}>Sitting out</Text>
+          <View style={styles.benchPlayers}>
+            {sittingOutPlayers.map(player => {
+              const isOnDeck = onDeckIds.includes(player.id);
+              return (
+                <View key={player.id} style={styles.benchPlayer}>
+                  <Image
+                    source={{ uri: player.avatar }}
+                    style={[styles.benchAvatar, isOnDeck && styles.benchAvatarOnDeck]}
+                  />
+                  <Text style={styles.benchName} numberOfLines={1}>
+                    {player.id === currentUserId ? 'You' : player.name.split(' ')[0]}
+                  </Text>
+                  {isOnDeck && <Text style={styles.onDeckLabel}>On deck</Text>}
+                </View>
+              );
+            })}
+          </View>
+        </View>
+      )}
+
       <Pressable
         style={({ pressed }) => [
           styles.lockButton,
@@ -557,6 +593,57 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginBottom: spacing.lg,
   },
+  bench: {
+    marginBottom: spacing.lg,
+    paddingTop: spacing.md,
+    borderTopWidth: 1,
+    borderTopColor: colors.borderLight,
+  },
+  benchTitle: {
+    color: colors.textMuted,
+    fontSize: 12,
+    fontWeight: '500',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    textAlign: 'center',
+    marginBottom: spacing.sm,
+  },
+  benchPlayers: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: spacing.lg,
+  },
+  benchPlayer: {
+    alignItems: 'center',
+  },
+  benchAvatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    borderWidth: 2,
+    borderColor: 'transparent',
+    opacity: 0.6,
+  },
+  benchAvatarOnDeck: {
+    borderColor: colors.accent,
+    opacity: 1,
+  },
+  benchName: {
+    color: colors.textSecondary,
+    fontSize: 12,
+    marginTop: spacing.xs,
+    maxWidth: 56,
+    textAlign: 'center',
+  },
+  onDeckLabel: {
+    color: colors.accent,
+    fontSize: 10,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: 2,
+  },
   lockButton: {
     backgroundColor: colors.accent,
     paddingVertical: spacing.md + 2,
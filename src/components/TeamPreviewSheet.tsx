@@ -15,8 +15,10 @@ import { Gesture, GestureDetector } from 'react-native-gesture-handler';
 import * as Haptics from 'expo-haptics';
 import { Swords, X, TrendingUp, Trophy, Target } from 'lucide-react-native';
 import { colors, spacing, borderRadius } from '../theme/colors';
-import { eloToRating } from '../utils';
-import type { Player } from '../types';
+import { useRatingStore } from '../store';
+import { eloToRating, getModeElo, previewMatch, toPreviewPlayer } from '../utils';
+import type { Player, RatingModel } from '../types';
+import { MatchStakesPreview } from './MatchStakesPreview';
 
 const { height: SCREEN_HEIGHT } = Dimensions.get('window');
 
@@ -32,6 +34,8 @@ interface TeamPreviewSheetProps {
     losses: number;
     streak: number;
   };
+  /** Rating model of the court's league, used for the singles preview */
+  ratingModel?: RatingModel;
 }
 
 // Ultra-premium spring configs
@@ -55,7 +59,9 @@ export function TeamPreviewSheet({
   onPlaySingles,
   onLeaveTeam,
   teamStats = { wins: 0, losses: 0, streak: 0 },
+  ratingModel,
 }: TeamPreviewSheetProps) {
+  const { getRating } = useRatingStore();
   const translateY = useSharedValue(500);
   const opacity = useSharedValue(0);
   const avatarScale = useSharedValue(0.8);
@@ -174,8 +180,14 @@ export function TeamPreviewSheet({
 
   if (!visible || !user || !partner) return null;
 
-  const userRating = eloToRating(user.elo);
-  const partnerRating = eloToRating(partner.elo);
+  const userRating = eloToRating(getModeElo(user, 'doubles'));
+  const partnerRating = eloToRating(getModeElo(partner, 'doubles'));
+  // Outlook for the "Play Singles" option against the partner
+  const singlesPreview = previewMatch(
+    [toPreviewPlayer(user, 'singles', getRating(user.id, 'singles'))],
+    [toPreviewPlayer(partner, 'singles', getRating(partner.id, 'singles'))],
+    ratingModel
+  );
   const avgRating = ((parseFloat(userRating) + parseFloat(partnerRating)) / 2).toFixed(1);
   const winRate = teamStats.wins + teamStats.losses > 0
     ? Math.round((teamStats.wins / (teamStats.wins + teamStats.losses)) * 100)
@@ -271,6 +283,16 @@ export function TeamPreviewSheet({
             </View>
           </Animated.View>
 
+          {/* Singles outlook vs partner */}
+          <Animated.View style={[styles.singlesPreview, statsStyle]}>
+            <Text style={styles.singlesPreviewTitle}>Singles vs {partner.name.split(' ')[0]}</Text>
+            <MatchStakesPreview
+              preview={singlesPreview}
+              playerId={user.id}
+              teamBLabel={partner.name.split(' ')[0]}
+            />
+          </Animated.View>
+
           {/* Action buttons */}
           <Animated.View style={[styles.actionsContainer, buttonStyle]}>
             <Pressable
@@ -461,6 +483,18 @@ const styles = StyleSheet.create({
     marginBottom: spacing.xl,
     width: '100%',
   },
+  singlesPreview: {
+    width: '100%',
+    marginBottom: spacing.xl,
+  },
+  singlesPreviewTitle: {
+    color: colors.textMuted,
+    fontSize: 11,
+    fontWeight: '600',
+    letterSpacing: 0.5,
+    textTransform: 'uppercase',
+    marginBottom: spacing.sm,
+  },
   individualItem: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -25,9 +25,16 @@ export type { MatchType } from './MatchTypeSheet';
 export { MatchSubmittedModal } from './MatchSubmittedModal';
 export { ActivityScreen } from './ActivityScreen';
 export { ProfileScreen } from './ProfileScreen';
+export { RatingHistoryChart } from './RatingHistoryChart';
 export { PairCard } from './PairCard';
 export type { PairStatus } from './PairCard';
 export { SwitchToSinglesSheet } from './SwitchToSinglesSheet';
 export { TeamArrangementCard } from './TeamArrangementCard';
 export { PlayerActionSheet } from './PlayerActionSheet';
 export { TeamPreviewSheet } from './TeamPreviewSheet';
+export { MatchStakesPreview } from './MatchStakesPreview';
+export { DisputePanel } from './DisputePanel';
+export { ConflictReviewPanel } from './ConflictReviewPanel';
+export { LiveScoringSheet } from './LiveScoringSheet';
+export { ReviewQueueScreen } from './ReviewQueueScreen';
+export { SessionResumeCard, SessionStartCard, SessionSummaryCard } from './SessionResumeCard';
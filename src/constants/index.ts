@@ -1,4 +1,5 @@
 // App-wide constants
+import type { ConfirmationPolicy, GameFormat, RatingScale, RatingTier } from '../types';
 
 export const APP_NAME = 'Paddle Rating';
 
@@ -7,7 +8,7 @@ export const FEATURES = {
   /** Use mock data instead of real API calls */
   USE_MOCK_API: true,
   /** Enable offline persistence with AsyncStorage */
-  ENABLE_OFFLINE: false,
+  ENABLE_OFFLINE: true,
   /** Enable real-time sync (WebSocket/Supabase) */
   ENABLE_REALTIME: false,
   /** Show dev panel on long-press (auto-disabled in production) */
@@ -18,11 +19,141 @@ export const FEATURES = {
 
 // Rating system
 export const RATING = {
-  MIN_ELO: 1000,
-  MAX_ELO: 2000,
-  MIN_DISPLAY: 2.0,
-  MAX_DISPLAY: 6.0,
   DEFAULT_ELO: 1200,
+  /** Display scale version in use (see RATING_SCALES) */
+  SCALE_VERSION: 2,
+  /** Rating model used when a match has no league */
+  DEFAULT_MODEL: 'win_loss',
+  /** K-factor for established ratings */
+  K_FACTOR: 32,
+  /** K-factor for a player's first rated match; shrinks to K_FACTOR over the provisional period */
+  PROVISIONAL_K_FACTOR: 64,
+  /** Rated matches (per mode) before a rating stops being provisional */
+  PROVISIONAL_MATCHES: 10,
+  /** Rating engine: 'elo', or 'glicko2' (win/loss only, ignores the league rating model) */
+  SYSTEM: 'elo',
+} as const;
+
+const RATING_TIERS: RatingTier[] = [
+  { minRating: -Infinity, label: 'Beginner' },
+  { minRating: 2.5, label: 'Novice' },
+  { minRating: 3.0, label: 'Intermediate' },
+  { minRating: 3.5, label: 'Advanced' },
+  { minRating: 4.0, label: 'Expert' },
+  { minRating: 4.5, label: 'Pro' },
+  { minRating: 5.0, label: 'Elite' },
+];
+
+// Display rating scales by version. A scale only changes how ELO is shown:
+// stored ratings, history and replays keep the same ELO under every version.
+// v1: 1000-2000 ELO shown as 2.0-6.0, clamped at both ends
+// v2: the starting ELO (1200) shown as 3.0 at 200 ELO per point, so new players
+//     start mid-scale; covers the full ELO range with no clamp
+export const RATING_SCALES: RatingScale[] = [
+  {
+    version: 1,
+    anchorElo: 1000,
+    anchorRating: 2.0,
+    eloPerPoint: 250,
+    minRating: 2.0,
+    maxRating: 6.0,
+    tiers: RATING_TIERS,
+  },
+  {
+    version: 2,
+    anchorElo: 1200,
+    anchorRating: 3.0,
+    eloPerPoint: 200,
+    tiers: RATING_TIERS,
+  },
+];
+
+// Glicko-2 rating engine
+export const GLICKO = {
+  /** Rating deviation for a player with no rated matches */
+  DEFAULT_DEVIATION: 350,
+  /** Starting volatility (expected fluctuation in performance) */
+  DEFAULT_VOLATILITY: 0.06,
+  /** System constant - smaller values keep volatility steadier */
+  TAU: 0.5,
+  /** Length of one rating period (ms) */
+  RATING_PERIOD_MS: 7 * 24 * 60 * 60 * 1000,
+  /** Convergence tolerance for the volatility iteration */
+  EPSILON: 0.000001,
+} as const;
+
+// Inactivity handling for ELO ratings
+export const INACTIVITY = {
+  /** 'decay' pulls idle ratings toward the floor; 'widen_uncertainty' keeps the rating but lets it move faster on return */
+  POLICY: 'decay',
+  /** Weeks without a confirmed match before a rating counts as inactive */
+  GRACE_WEEKS: 8,
+  /** Share of the gap to the floor removed per inactive week (decay policy) */
+  DECAY_RATE: 0.02,
+  /** ELO that decay never goes below */
+  DECAY_FLOOR: 1200,
+  /** Matches after returning that use the returning K-factor */
+  RETURNING_MATCHES: 3,
+  /** K-factor for returning players under the decay policy */
+  RETURNING_K_FACTOR: 48,
+  /** K-factor for returning players under the widen-uncertainty policy */
+  WIDENED_K_FACTOR: 64,
+} as const;
+
+// Confirmation policy for matches whose court and league don't set one
+export const DEFAULT_CONFIRMATION_POLICY: ConfirmationPolicy = {
+  rule: 'all_opponents',
+  onExpiry: 'expire',
+  windowHours: 24,
+};
+
+// Game format for matches whose court and league don't set one: side-out to 11, win by 2
+export const DEFAULT_GAME_FORMAT: GameFormat = {
+  scoring: 'side_out',
+  target: 11,
+  winBy: 2,
+  switchSidesAt: 6,
+  timeoutsPerGame: 2,
+};
+
+// Score entry limits
+export const SCORING = {
+  /** Games that can be logged in one open-play match (formats without bestOf) */
+  OPEN_PLAY_MAX_GAMES: 5,
+  /** Highest score accepted for uncapped games */
+  MAX_POINTS: 30,
+} as const;
+
+// Doubles sessions
+export const SESSIONS = {
+  /** Sessions with no activity for this long are closed automatically on launch or when the app returns */
+  IDLE_CLOSE_MINUTES: 90,
+  /** Fewest players a doubles session can start with */
+  MIN_PLAYERS: 4,
+  /** Most players that can share one court in a rotating session */
+  MAX_PLAYERS: 8,
+} as const;
+
+// Duplicate submissions (both teams logging the same match)
+export const DUPLICATES = {
+  /** Submissions this close together with the same players and court count as one match */
+  WINDOW_MINUTES: 30,
+} as const;
+
+// Match contests (disputes)
+export const CONTESTS = {
+  /** Contests a player can open per rolling window */
+  LIMIT: 1,
+  /** Length of the rolling window (days) */
+  WINDOW_DAYS: 7,
+  /** Days after a match is played that its confirmed result can still be contested */
+  CONFIRMED_DISPUTE_DAYS: 3,
+  /** Trust score for a player with no frivolous contests */
+  TRUST_START: 100,
+  /** Trust lost for each contest resolved with the original result upheld */
+  FRIVOLOUS_PENALTY: 15,
+  /** Frivolous contests forgiven before the penalty starts counting */
+  FRIVOLOUS_GRACE: 1,
 } as const;
 
 // Animation durations (ms)
@@ -39,6 +170,8 @@ export const API = {
   TIMEOUT: 10000,
   RETRY_ATTEMPTS: 3,
   RETRY_DELAY: 1000,
+  /** Multiplier applied to RETRY_DELAY after each failed attempt */
+  RETRY_BACKOFF: 2,
 } as const;
 
 // Player status options
@@ -1,10 +1,15 @@
-import type { Player, Team, CurrentUser } from '../types';
+import type { Player, Team, CurrentUser, League, Court } from '../types';
 
 export const currentUser: CurrentUser = {
   id: 'current-user',
   name: 'You',
   avatar: 'https://images.unsplash.com/photo-1516224498413-84ecf3a1e7fd?w=200&h=200&fit=crop',
   elo: 1250,
+  ratings: {
+    singles: { elo: 1250, gamesPlayed: 28, wins: 18 },
+    doubles: { elo: 1312, gamesPlayed: 19, wins: 11 },
+  },
+  role: 'reviewer',
 };
 
 export const mockPlayers: Player[] = [
@@ -41,6 +46,10 @@ export const mockPlayers: Player[] = [
     name: 'Alex Rivera',
     avatar: 'https://images.unsplash.com/photo-1516224498413-84ecf3a1e7fd?w=200&h=200&fit=crop',
     elo: 1150,
+    ratings: {
+      singles: { elo: 1150, gamesPlayed: 4, wins: 3 },
+      doubles: { elo: 1160, gamesPlayed: 6, wins: 3 },
+    },
     status: 'On Court 1',
   },
   {
@@ -48,6 +57,10 @@ export const mockPlayers: Player[] = [
     name: 'Nina Patel',
     avatar: 'https://images.unsplash.com/photo-1608245449230-4ac19066d2d0?w=200&h=200&fit=crop',
     elo: 1380,
+    ratings: {
+      singles: { elo: 1380, gamesPlayed: 7, wins: 5 },
+      doubles: { elo: 1395, gamesPlayed: 22, wins: 14 },
+    },
     status: 'Ready',
   },
 ];
@@ -97,6 +110,10 @@ export const mockTeams: Team[] = [
       name: 'Alex Rivera',
       avatar: 'https://images.unsplash.com/photo-1517466787929-bc90951d0974?w=200&h=200&fit=crop',
       elo: 1150,
+      ratings: {
+        singles: { elo: 1150, gamesPlayed: 4, wins: 3 },
+        doubles: { elo: 1160, gamesPlayed: 6, wins: 3 },
+      },
     },
     combinedElo: 2330,
     status: 'Ready',
@@ -126,3 +143,45 @@ export const mockLookingForPartner: Player[] = [
     status: 'Waiting',
   },
 ];
+
+export const mockLeagues: League[] = [
+  {
+    id: 'lincoln-park-open',
+    name: 'Lincoln Park Open Play',
+    ratingModel: 'win_loss',
+    courtIds: ['lincoln-park'],
+  },
+  {
+    id: 'riverside-ladder',
+    name: 'Riverside Ladder',
+    ratingModel: 'margin_of_victory',
+    courtIds: ['riverside'],
+    confirmationPolicy: { rule: 'majority', onExpiry: 'escalate', windowHours: 48 },
+    gameFormat: {
+      scoring: 'side_out',
+      target: 11,
+      winBy: 2,
+      bestOf: 3,
+      switchSidesAt: 6,
+      timeoutsPerGame: 2,
+      showGameClock: true,
+    },
+  },
+];
+
+// Courts with their own settings
+export const mockCourts: Court[] = [
+  {
+    id: 'lincoln-park',
+    name: 'Lincoln Park',
+    courtCount: 4,
+    surfaceType: 'outdoor',
+    confirmationPolicy: { rule: 'all_participants', onExpiry: 'expire', windowHours: 24 },
+  },
+  {
+    id: 'riverside',
+    name: 'Riverside Courts',
+    courtCount: 6,
+    surfaceType: 'outdoor',
+  },
+];
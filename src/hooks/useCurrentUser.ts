@@ -1,6 +1,8 @@
 import { useState, useEffect } from 'react';
 import type { CurrentUser, CurrentTeam, Player } from '../types';
 import { playerService, teamService } from '../services';
+import { matchStore, useRatingStore } from '../store';
+import { getModeElo } from '../utils';
 
 interface UseCurrentUserResult {
   user: CurrentUser | null;
@@ -16,12 +18,16 @@ export function useCurrentUser(): UseCurrentUserResult {
   const [currentTeam, setCurrentTeam] = useState<CurrentTeam | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const { getRating, getRatings, seedRatings, checkInactivity } = useRatingStore();
 
   useEffect(() => {
     const fetchUser = async () => {
       try {
         setLoading(true);
         const userData = await playerService.getCurrentUser();
+        seedRatings(userData.id, userData.ratings);
+        checkInactivity(userData.id);
+        matchStore.setCurrentUserRole(userData.role ?? 'player');
         setUser(userData);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to fetch user');
@@ -42,7 +48,7 @@ export function useCurrentUser(): UseCurrentUserResult {
         setCurrentTeam({
           id: result.teamId,
           partner: player,
-          combinedElo: user.elo + player.elo,
+          combinedElo: (getRating(user.id, 'doubles')?.elo ?? user.ratings.doubles.elo) + getModeElo(player, 'doubles'),
         });
       }
     } catch (err) {
@@ -63,5 +69,10 @@ export function useCurrentUser(): UseCurrentUserResult {
     }
   };
 
-  return { user, currentTeam, loading, error, invitePartner, leaveTeam };
+  // Stored ratings win over the fetched ones once a confirmed match has moved them.
+  // The legacy elo field follows singles.
+  const ratings = user ? getRatings(user.id) ?? user.ratings : null;
+  const ratedUser = user && ratings ? { ...user, ratings, elo: ratings.singles.elo } : null;
+
+  return { user: ratedUser, currentTeam, loading, error, invitePartner, leaveTeam };
 }
@@ -8,6 +8,7 @@ import {
   SafeAreaView,
   StatusBar,
   ActivityIndicator,
+  Alert,
 } from 'react-native';
 import Animated, {
   useAnimatedStyle,
@@ -44,13 +45,21 @@ import {
   TeamArrangementCard,
   PlayerActionSheet,
   TeamPreviewSheet,
+  LiveScoringSheet,
+  ReviewQueueScreen,
+  SessionResumeCard,
+  SessionStartCard,
+  SessionSummaryCard,
 } from '../components';
 import type { PresenceStatus, MatchType, PairStatus } from '../components';
 import { colors, spacing, borderRadius } from '../theme/colors';
 import { useNearbyPlayers, useTeams, useCurrentUser } from '../hooks';
-import { eloToRating, getNewElo } from '../utils';
-import type { Player, Team, GameMode, PlayPreference } from '../types';
-import { useMatchStore, playersToParticipants, Match, useSessionStore } from '../store';
+import { eloToRating, formatRatingDiffReport, getNewElo, getLeagueRatingModel, getLivePrompts, getScoreCall } from '../utils';
+import type { RatingDiffEntry } from '../utils';
+import type { Player, Team, GameMode, PlayPreference, SessionSummary } from '../types';
+import { mockCourts } from '../data';
+import { SESSIONS } from '../constants';
+import { useMatchStore, playersToParticipants, Match, useSessionStore, matchStore, ratingStore, getCourtLeague, getGameFormat, useLiveScoreStore } from '../store';
 
 const AnimatedPressable = Animated.createAnimatedComponent(Pressable);
 
@@ -86,6 +95,7 @@ function DevPanel({
   onSessionStateChange,
   onMinutesChange,
   onNudgeGlowToggle,
+  onRecomputeRatings,
   onClose,
 }: {
   sessionState: DevSessionState;
@@ -94,10 +104,12 @@ function DevPanel({
   onSessionStateChange: (state: DevSessionState) => void;
   onMinutesChange: (minutes: number) => void;
   onNudgeGlowToggle: () => void;
+  onRecomputeRatings: (apply: boolean) => RatingDiffEntry[];
   onClose: () => void;
 }) {
   const states: DevSessionState[] = ['NONE', 'MATCH_READY', 'RECENT_MATCH', 'LOG_PROMPT_OPEN'];
   const minuteOptions = [0, 5, 15, 45];
+  const [replayReport, setReplayReport] = useState<string | null>(null);
 
   return (
     <View style={devStyles.overlay}>
@@ -150,6 +162,21 @@ function DevPanel({
             </Text>
           </Pressable>
         </View>
+
+        <Text style={devStyles.label}>Rating Replay</Text>
+        <View style={devStyles.optionsRow}>
+          <Pressable style={devStyles.option} onPress={() => setReplayReport(formatRatingDiffReport(onRecomputeRatings(false)))}>
+            <Text style={devStyles.optionText}>DRY RUN</Text>
+          </Pressable>
+          <Pressable style={devStyles.option} onPress={() => setReplayReport(formatRatingDiffReport(onRecomputeRatings(true)))}>
+            <Text style={devStyles.optionText}>APPLY</Text>
+          </Pressable>
+        </View>
+        {replayReport !== null && (
+          <ScrollView style={devStyles.report}>
+            <Text style={devStyles.reportText}>{replayReport}</Text>
+          </ScrollView>
+        )}
       </View>
     </View>
   );
@@ -228,8 +255,20 @@ const devStyles = StyleSheet.create({
   optionTextActive: {
     color: '#fff',
   },
+  report: {
+    maxHeight: 160,
+    marginTop: 8,
+  },
+  reportText: {
+    color: '#aaa',
+    fontSize: 11,
+  },
 });
 
+// Court the user is checked in at
+// TODO: Take from check-in once presence is backed by location
+const CHECKED_IN_COURT = mockCourts.find(c => c.id === 'lincoln-park') ?? mockCourts[0];
+
 export function HomeScreen() {
   // Default to doubles experience
   const [gameMode, setGameMode] = useState<GameMode>('doubles');
@@ -242,12 +281,14 @@ export function HomeScreen() {
   const [singlesCooldownPlayerId, setSinglesCooldownPlayerId] = useState<string | null>(null);
   const [showLogPrompt, setShowLogPrompt] = useState(false);
   const [showScoreFlow, setShowScoreFlow] = useState(false);
+  const [showLiveScoring, setShowLiveScoring] = useState(false);
   const [matchReadyTime, setMatchReadyTime] = useState<Date | null>(null);
   const [recentMatch, setRecentMatch] = useState<{ partner: Player; opponents: Player[] } | null>(null);
   const [isNewMatchAnimation, setIsNewMatchAnimation] = useState(true);
   const [cooldownTeamId, setCooldownTeamId] = useState<string | null>(null);
   const [showProfileSidebar, setShowProfileSidebar] = useState(false);
   const [activeTab, setActiveTab] = useState<'home' | 'activity' | 'profile'>('home');
+  const [showReviewQueue, setShowReviewQueue] = useState(false);
   // Top-level presence status (single source of truth)
   const [presenceStatus, setPresenceStatus] = useState<PresenceStatus>('not_checked_in');
   const [autoMatchEnabled, setAutoMatchEnabled] = useState(true);
@@ -278,7 +319,7 @@ export function HomeScreen() {
   const [devMinutesSinceFormed, setDevMinutesSinceFormed] = useState(0);
   const [devNudgeGlowEnabled, setDevNudgeGlowEnabled] = useState(false);
 
-  // Match result overlay state (legacy - kept for old result overlay)
+  // Match result overlay state - shown when a confirmed match moves the user's rating
   const [showMatchResult, setShowMatchResult] = useState(false);
   const [matchResult, setMatchResult] = useState<{
     isWin: boolean;
@@ -296,7 +337,7 @@ export function HomeScreen() {
   const [scrollToMatchId, setScrollToMatchId] = useState<string | null>(null);
 
   // Get match store data
-  const { pendingConfirmationCount, createMatch } = useMatchStore();
+  const { pendingConfirmationCount, createMatch, recomputeRatings } = useMatchStore();
 
   // Get session store for doubles team swapping
   const {
@@ -307,13 +348,78 @@ export function HomeScreen() {
     unlockTeams,
     recordGame,
     endSession,
+    resumableSession,
+    closedSummary,
+    resumeSession,
+    discardResumableSession,
+    dismissClosedSummary,
   } = useSessionStore();
 
+  // Court of the match being played: the session's court, else the one the user is at.
+  // Its league decides the rating model and its format the scoring rules.
+  const matchCourt = doublesSession
+    ? { id: doublesSession.courtId, name: doublesSession.courtName }
+    : CHECKED_IN_COURT;
+  const courtLeague = getCourtLeague(matchCourt.id);
+  const courtRatingModel = getLeagueRatingModel(courtLeague);
+  const courtGameFormat = getGameFormat(matchCourt.id, courtLeague?.id);
+
+  // Session the user is running with a group on court: started from the
+  // checked-in players, or restored from the last launch and picked back up
+  const [groupSessionId, setGroupSessionId] = useState<string | null>(null);
+  const [endedSessionSummary, setEndedSessionSummary] = useState<SessionSummary | null>(null);
+  const isGroupSession = !!doublesSession && doublesSession.id === groupSessionId;
+  const sessionSummary = closedSummary ?? endedSessionSummary;
+
+  // Live scoring state for the game in progress (drives the reminders on the match card)
+  const { session: liveSession, liveState } = useLiveScoreStore();
+  const [liveClockNow, setLiveClockNow] = useState(Date.now());
+  const liveHasClock = !!liveSession && (!!liveSession.format.timeLimitMinutes || !!liveSession.format.showGameClock);
+
+  React.useEffect(() => {
+    if (!liveHasClock) return;
+    const interval = setInterval(() => setLiveClockNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [liveHasClock]);
+
+  const liveScoreCall = liveState && !liveState.isMatchOver ? getScoreCall(liveState.current) : undefined;
+  const livePrompts = liveSession && liveState
+    ? getLivePrompts(liveSession.format, liveState, liveSession.timeouts, { teamA: 'You', teamB: 'Them' }, liveClockNow)
+    : [];
+
   // Use custom hooks for data fetching
   const { user, currentTeam, invitePartner, leaveTeam } = useCurrentUser();
   const { players, loading: playersLoading } = useNearbyPlayers();
   const { teams, lookingForPartner: allLookingForPartner, loading: teamsLoading } = useTeams();
 
+  // Show the result overlay when a confirmed match moves the user's rating
+  React.useEffect(() => {
+    const userId = user?.id;
+    if (!userId) return;
+    return ratingStore.onRatingChanged(changes => {
+      const change = changes.find(c => c.playerId === userId);
+      const match = change && matchStore.getMatch(change.matchId);
+      if (!change || !match) return;
+
+      const userOnTeamA = match.teamA.some(p => p.id === userId);
+      const opponents = userOnTeamA ? match.teamB : match.teamA;
+      setMatchResult({
+        isWin: userOnTeamA ? match.teamAWins > match.teamBWins : match.teamBWins > match.teamAWins,
+        previousElo: change.ratingBefore,
+        newElo: change.ratingAfter,
+        opponents: opponents.map(p => ({
+          id: p.id,
+          name: p.name,
+          avatar: p.avatarUrl ?? '',
+          elo: p.ratingAfter ?? p.ratingBefore ?? change.ratingBefore,
+          status: 'Ready' as const,
+        })),
+        timestamp: new Date(match.createdAt),
+      });
+      setShowMatchResult(true);
+    });
+  }, [user?.id]);
+
   // Filter out the current team's partner from the looking for partner list
   const lookingForPartner = React.useMemo(() => {
     if (!currentTeam) return allLookingForPartner;
@@ -349,9 +455,13 @@ export function HomeScreen() {
     if (gameMode === 'singles' && acceptedPlayer) {
       return true;
     }
+    // A group session is already a match in progress
+    if (isGroupSession) {
+      return true;
+    }
     // Doubles match ready
     return currentTeam && (acceptedPlayerIds.size >= 2 || acceptedTeam);
-  }, [currentTeam, acceptedPlayerIds, acceptedTeam, acceptedPlayer, gameMode, isDevMode, devSessionState]);
+  }, [currentTeam, acceptedPlayerIds, acceptedTeam, acceptedPlayer, gameMode, isDevMode, devSessionState, isGroupSession]);
 
   // Track when match becomes ready, detect if it's a "last game" state
   React.useEffect(() => {
@@ -382,6 +492,13 @@ export function HomeScreen() {
     if (isDevMode) {
       return DEV_FIXTURE_OPPONENTS;
     }
+    // Group session: the opponents are whoever isn't on the user's team
+    if (isGroupSession && doublesSession) {
+      const userId = user?.id ?? 'current-user';
+      if (doublesSession.sittingOut.includes(userId)) return [];
+      const opponentIds = doublesSession.teamA.includes(userId) ? doublesSession.teamB : doublesSession.teamA;
+      return doublesSession.players.filter(p => opponentIds.includes(p.id));
+    }
     if (acceptedTeam) {
       return [
         { id: 't1p1', name: acceptedTeam.player1.name, avatar: acceptedTeam.player1.avatar, elo: acceptedTeam.player1.elo ?? 1200, status: 'Ready' as const },
@@ -389,7 +506,7 @@ export function HomeScreen() {
       ];
     }
     return lookingForPartner.filter(p => acceptedPlayerIds.has(p.id)).slice(0, 2);
-  }, [acceptedTeam, lookingForPartner, acceptedPlayerIds, isDevMode]);
+  }, [acceptedTeam, lookingForPartner, acceptedPlayerIds, isDevMode, isGroupSession, doublesSession, doublesSession?.teamA, doublesSession?.teamB, user?.id]);
 
   // Dev mode: compute recentMatch from fixture data
   const effectiveRecentMatch = React.useMemo(() => {
@@ -412,7 +529,25 @@ export function HomeScreen() {
     : user
       ? { ...user, status: 'Ready' as const }
       : null;
-  const effectivePartner = isDevMode ? DEV_FIXTURE_PARTNER : currentTeam?.partner;
+  // Group session: the partner is the user's teammate in the current arrangement
+  const sessionPartner = React.useMemo(() => {
+    if (!isGroupSession || !doublesSession) return undefined;
+    const userId = user?.id ?? 'current-user';
+    if (doublesSession.sittingOut.includes(userId)) return undefined;
+    const team = doublesSession.teamA.includes(userId) ? doublesSession.teamA : doublesSession.teamB;
+    return doublesSession.players.find(p => p.id !== userId && team.includes(p.id));
+  }, [isGroupSession, doublesSession, doublesSession?.teamA, doublesSession?.teamB, user?.id]);
+  const effectivePartner = isDevMode
+    ? DEV_FIXTURE_PARTNER
+    : isGroupSession ? sessionPartner : currentTeam?.partner;
+
+  // Everyone checked in at the court who can share it in a rotating session
+  const checkedInGroup = React.useMemo((): Player[] => {
+    if (!user) return [];
+    const group: Player[] = [{ ...user, status: 'Ready' as const }];
+    if (currentTeam) group.push(currentTeam.partner);
+    return [...group, ...lookingForPartner].slice(0, SESSIONS.MAX_PLAYERS);
+  }, [user, currentTeam, lookingForPartner]);
 
   // Start a doubles session when match is ready with 4 players
   React.useEffect(() => {
@@ -426,8 +561,8 @@ export function HomeScreen() {
     ) {
       const allPlayers = [effectiveUser, effectivePartner, ...opponentPlayers];
       startSession({
-        courtId: 'lincoln-park',
-        courtName: 'Lincoln Park Courts',
+        courtId: CHECKED_IN_COURT.id,
+        courtName: CHECKED_IN_COURT.name,
         players: allPlayers,
       });
     }
@@ -444,8 +579,8 @@ export function HomeScreen() {
   const currentUserDisplay = user
     ? {
         avatar: user.avatar,
-        elo: eloToRating(user.elo),
-        eloNumber: user.elo,
+        elo: eloToRating(user.ratings[gameMode].elo),
+        eloNumber: user.ratings[gameMode].elo,
       }
     : {
         avatar: '',
@@ -514,6 +649,8 @@ export function HomeScreen() {
   };
 
   const handleCancelMatch = () => {
+    // Stop treating the group session as a match in progress (ends the session)
+    setGroupSessionId(null);
     // Set cooldown for the cancelled team (doubles)
     if (acceptedTeam) {
       setCooldownTeamId(acceptedTeam.id);
@@ -576,10 +713,33 @@ export function HomeScreen() {
     setShowScoreFlow(true);
   };
 
-  const handleScoreFlowComplete = (games: { teamAScore: number; teamBScore: number }[]) => {
-    setShowScoreFlow(false);
+  // Teams on court in the doubles session, with the user's team first when
+  // they're playing. Partners rotate between games, so read the session's
+  // current lineup rather than the partner the match was formed with.
+  const getSessionLineup = () => {
+    if (!doublesSession || gameMode !== 'doubles') return null;
+    const userId = user?.id ?? 'current-user';
+    const toPlayers = (ids: string[]) => ids
+      .map(id => (id === userId && effectiveUser) || doublesSession.players.find(p => p.id === id))
+      .filter((p): p is Player => !!p);
+    const userOnTeamB = doublesSession.teamB.includes(userId);
+    const teamA = toPlayers(doublesSession.teamA);
+    const teamB = toPlayers(doublesSession.teamB);
+    return userOnTeamB
+      ? { teamA: teamB, teamB: teamA, userOnTeamB }
+      : { teamA, teamB, userOnTeamB };
+  };
+
+  // Participants for the match being logged (user's team vs current opponents)
+  const getScoreFlowTeams = () => {
+    const lineup = getSessionLineup();
+    if (lineup) {
+      return {
+        teamA: playersToParticipants(lineup.teamA, undefined, gameMode),
+        teamB: playersToParticipants(lineup.teamB, undefined, gameMode),
+      };
+    }
 
-    // Get opponents for the match
     const currentOpponents = gameMode === 'singles'
       ? (acceptedPlayer ? [acceptedPlayer] : [])
       : opponentPlayers;
@@ -592,30 +752,75 @@ export function HomeScreen() {
         name: user.name,
         avatar: user.avatar,
         elo: user.elo,
+        ratings: user.ratings,
         status: 'Ready',
       });
     }
-    if (gameMode === 'doubles' && currentTeam?.partner) {
-      teamAPlayers.push(currentTeam.partner);
+    if (gameMode === 'doubles' && effectivePartner) {
+      teamAPlayers.push(effectivePartner);
     }
 
-    // Create match in store with W-L record
-    const match = createMatch({
-      courtId: 'lincoln-park',
-      courtName: 'Lincoln Park',
-      mode: gameMode,
-      teamA: playersToParticipants(teamAPlayers),
-      teamB: playersToParticipants(currentOpponents),
-      games: games.map(g => ({ teamAScore: g.teamAScore, teamBScore: g.teamBScore })),
-      currentUserId: user?.id ?? 'current-user',
-    });
+    return {
+      teamA: playersToParticipants(teamAPlayers, undefined, gameMode),
+      teamB: playersToParticipants(currentOpponents, undefined, gameMode),
+    };
+  };
+
+  // "Alex + Sam vs Jo + Lee" for the doubles game being logged
+  const getMatchSubtitle = () => {
+    const lineup = getSessionLineup();
+    const [teamA, teamB] = lineup
+      ? [lineup.teamA, lineup.teamB]
+      : [effectiveUser && effectivePartner ? [effectiveUser, effectivePartner] : [], opponentPlayers];
+    if (teamA.length < 2 || teamB.length < 2) return undefined;
+    const firstNames = (team: Player[]) => team.map(p => p.name.split(' ')[0]).join(' + ');
+    return `${firstNames(teamA)} vs ${firstNames(teamB)}`;
+  };
+
+  // Match the score sheet previews rating changes for; rebuilt only when the teams
+  // being logged change so the preview isn't recomputed on every render
+  const ratingPreviewMatch = React.useMemo(
+    () => (showScoreFlow ? { mode: gameMode, leagueId: courtLeague?.id, ...getScoreFlowTeams() } : undefined),
+    [showScoreFlow, gameMode, courtLeague?.id, user?.id, user?.ratings, isDevMode, currentTeam, sessionPartner,
+      opponentPlayers, acceptedPlayer, doublesSession?.teamA, doublesSession?.teamB]
+  );
+
+  const handleScoreFlowComplete = (games: { teamAScore: number; teamBScore: number }[]) => {
+    const { teamA, teamB } = getScoreFlowTeams();
+
+    // Create match in store with W-L record. Scores the court's format rejects
+    // throw; keep the score sheet open so they can be fixed.
+    let match: Match;
+    try {
+      match = createMatch({
+        courtId: matchCourt.id,
+        courtName: matchCourt.name,
+        mode: gameMode,
+        leagueId: courtLeague?.id,
+        teamA,
+        teamB,
+        games: games.map(g => ({ teamAScore: g.teamAScore, teamBScore: g.teamBScore })),
+        currentUserId: user?.id ?? 'current-user',
+        sessionId: doublesSession?.id,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message.replace(/^Invalid match scores: /, '') : String(error);
+      Alert.alert("Couldn't save the score", message);
+      return;
+    }
+    setShowScoreFlow(false);
 
     // If in a doubles session, record the game to update combo records
     // This will transition back to 'arranging' phase for team swapping
     if (doublesSession && games.length > 0) {
       // Record the most recent game (last in array if multiple)
+      // Scores are entered from the user's side; the session keeps its own team order
       const lastGame = games[games.length - 1];
-      recordGame(lastGame.teamAScore, lastGame.teamBScore);
+      if (getSessionLineup()?.userOnTeamB) {
+        recordGame(lastGame.teamBScore, lastGame.teamAScore);
+      } else {
+        recordGame(lastGame.teamAScore, lastGame.teamBScore);
+      }
     }
 
     // Store match and show submitted modal
@@ -635,6 +840,42 @@ export function HomeScreen() {
     setRecentMatch(null);
   };
 
+  // Pick up the session saved before the app was closed
+  const handleResumeSession = () => {
+    const session = resumeSession();
+    if (session) {
+      setEndedSessionSummary(null);
+      setGroupSessionId(session.id);
+    }
+  };
+
+  // Share the court with everyone checked in; the session rotates partners and sit-outs
+  const handleStartGroupSession = () => {
+    const session = startSession({
+      courtId: CHECKED_IN_COURT.id,
+      courtName: CHECKED_IN_COURT.name,
+      players: checkedInGroup,
+    });
+    setEndedSessionSummary(null);
+    setGroupSessionId(session.id);
+  };
+
+  // End the saved session instead and show how it went
+  const handleEndResumableSession = () => {
+    setEndedSessionSummary(discardResumableSession());
+  };
+
+  const handleDismissSessionSummary = () => {
+    setEndedSessionSummary(null);
+    if (closedSummary) dismissClosedSummary();
+  };
+
+  // Live scoring finished - submit its games like a logged score
+  const handleLiveScoringComplete = (games: { teamAScore: number; teamBScore: number }[]) => {
+    setShowLiveScoring(false);
+    handleScoreFlowComplete(games);
+  };
+
   // Handle closing the match submitted modal - go back to court
   const handleMatchSubmittedClose = () => {
     setShowMatchSubmitted(false);
@@ -648,19 +889,15 @@ export function HomeScreen() {
     setActiveTab('activity');
   };
 
-  // Legacy handlers for old MatchResultOverlay (if still used elsewhere)
+  // Rating result overlay handlers - the match is already over, so leave court state alone
   const handleMatchResultClose = () => {
     setShowMatchResult(false);
     setMatchResult(null);
-    handleCancelMatch();
-    setRecentMatch(null);
   };
 
   const handleViewActivity = () => {
     setShowMatchResult(false);
     setMatchResult(null);
-    handleCancelMatch();
-    setRecentMatch(null);
     // Switch to activity tab
     setActiveTab('activity');
   };
@@ -765,6 +1002,7 @@ export function HomeScreen() {
   };
 
   const isLoading = gameMode === 'singles' ? playersLoading : teamsLoading;
+  const sessionLineup = getSessionLineup();
 
   return (
     <SafeAreaView style={styles.container}>
@@ -876,6 +1114,9 @@ export function HomeScreen() {
                       onCancelMatch={handleCancelMatch}
                       onForfeit={handleCancelMatch}
                       onSubmitScore={handleLogScores}
+                      ratingModel={courtRatingModel}
+                      liveScoreCall={liveScoreCall}
+                      livePrompts={livePrompts}
                       isLastGame={isLastGame}
                       isNewMatch={isNewMatchAnimation}
                       __devTriggerNudge={devNudgeGlowEnabled}
@@ -907,6 +1148,29 @@ export function HomeScreen() {
 
             {gameMode === 'doubles' && (
               <View style={styles.cardsContainer}>
+                {/* Unfinished session from the last launch */}
+                {!isMatchReady && resumableSession && (
+                  <SessionResumeCard
+                    session={resumableSession}
+                    onResume={handleResumeSession}
+                    onEnd={handleEndResumableSession}
+                  />
+                )}
+
+                {/* Everyone checked in can share the court as one rotating session */}
+                {!isMatchReady && isCheckedIn && !resumableSession && checkedInGroup.length >= SESSIONS.MIN_PLAYERS && (
+                  <SessionStartCard
+                    courtName={CHECKED_IN_COURT.name}
+                    players={checkedInGroup}
+                    onStart={handleStartGroupSession}
+                  />
+                )}
+
+                {/* Summary of a session that was ended or closed for being idle */}
+                {!isMatchReady && !resumableSession && sessionSummary && (
+                  <SessionSummaryCard summary={sessionSummary} onDismiss={handleDismissSessionSummary} />
+                )}
+
                 {/* Team Arrangement - show when session is in arranging phase */}
                 {isMatchReady && doublesSession?.phase === 'arranging' && (
                   <View style={styles.matchReadyContainer}>
@@ -920,14 +1184,17 @@ export function HomeScreen() {
                 )}
 
                 {/* Match Ready - show when session is in ready phase (teams locked) */}
-                {isMatchReady && doublesSession?.phase === 'ready' && effectiveUser && effectivePartner && (
+                {isMatchReady && doublesSession?.phase === 'ready' && sessionLineup && (
                   <View style={styles.matchReadyContainer}>
                     <MatchReadyCard
-                      teamA={[effectiveUser, effectivePartner]}
-                      teamB={opponentPlayers}
+                      teamA={sessionLineup.teamA}
+                      teamB={sessionLineup.teamB}
                       onCancelMatch={handleCancelMatch}
                       onForfeit={handleCancelMatch}
                       onSubmitScore={handleLogScores}
+                      ratingModel={courtRatingModel}
+                      liveScoreCall={liveScoreCall}
+                      livePrompts={livePrompts}
                       isLastGame={isLastGame}
                       isNewMatch={isNewMatchAnimation}
                       onRearrangeTeams={unlockTeams}
@@ -944,7 +1211,10 @@ export function HomeScreen() {
                       <View style={styles.logPromptSheet}>
                         <Text style={styles.logPromptTitle}>Log last game?</Text>
                         <Text style={styles.logPromptBody}>
-                          You played with {[...opponentPlayers, effectivePartner].map(p => p.name.split(' ')[0]).join(', ')}.
+                          You played with {[...sessionLineup.teamA, ...sessionLineup.teamB]
+                            .filter(p => p.id !== effectiveUser?.id)
+                            .map(p => p.name.split(' ')[0])
+                            .join(', ')}.
                         </Text>
                         <Pressable style={styles.logPromptPrimary} onPress={handleLogScores}>
                           <Text style={styles.logPromptPrimaryText}>Log scores</Text>
@@ -966,6 +1236,9 @@ export function HomeScreen() {
                       onCancelMatch={handleCancelMatch}
                       onForfeit={handleCancelMatch}
                       onSubmitScore={handleLogScores}
+                      ratingModel={courtRatingModel}
+                      liveScoreCall={liveScoreCall}
+                      livePrompts={livePrompts}
                       isLastGame={isLastGame}
                       isNewMatch={isNewMatchAnimation}
                       __devTriggerNudge={devNudgeGlowEnabled}
@@ -1094,11 +1367,26 @@ export function HomeScreen() {
         visible={showScoreFlow}
         onClose={() => setShowScoreFlow(false)}
         onComplete={handleScoreFlowComplete}
+        gameFormat={courtGameFormat}
+        onScoreLive={gameMode === 'doubles' && courtGameFormat.scoring === 'side_out'
+          ? () => {
+              setShowScoreFlow(false);
+              setShowLiveScoring(true);
+            }
+          : undefined}
+        ratingPreviewMatch={ratingPreviewMatch}
         teamALabel="You"
         teamBLabel="Them"
-        matchSubtitle={effectiveUser && effectivePartner && opponentPlayers.length >= 2
-          ? `${effectiveUser.name.split(' ')[0]} + ${effectivePartner.name.split(' ')[0]} vs ${opponentPlayers[0].name.split(' ')[0]} + ${opponentPlayers[1].name.split(' ')[0]}`
-          : undefined}
+        matchSubtitle={getMatchSubtitle()}
+      />
+
+      <LiveScoringSheet
+        visible={showLiveScoring}
+        gameFormat={courtGameFormat}
+        teamALabel="You"
+        teamBLabel="Them"
+        onClose={() => setShowLiveScoring(false)}
+        onComplete={handleLiveScoringComplete}
       />
 
       {/* Dev Panel - only in __DEV__ mode */}
@@ -1115,6 +1403,7 @@ export function HomeScreen() {
           }}
           onMinutesChange={setDevMinutesSinceFormed}
           onNudgeGlowToggle={() => setDevNudgeGlowEnabled(prev => !prev)}
+          onRecomputeRatings={(apply) => recomputeRatings({ apply })}
           onClose={() => setShowDevPanel(false)}
         />
       )}
@@ -1124,8 +1413,6 @@ export function HomeScreen() {
         visible={showProfileSidebar}
         onClose={() => setShowProfileSidebar(false)}
         user={user}
-        singlesRating={user?.elo}
-        doublesRating={user?.elo ? Math.round(user.elo * 1.05) : undefined}
         onUpdateName={(name) => console.log('Update name:', name)}
         onUpdateAvatar={(uri) => console.log('Update avatar:', uri)}
         onMatchHistory={() => console.log('Match history')}
@@ -1196,6 +1483,7 @@ export function HomeScreen() {
         visible={showTeamPreview}
         user={user ? { ...user, status: 'Ready' as const } : null}
         partner={currentTeam?.partner ?? null}
+        ratingModel={courtRatingModel}
         onClose={() => setShowTeamPreview(false)}
         onPlaySingles={() => {
           setShowTeamPreview(false);
@@ -1214,12 +1502,12 @@ export function HomeScreen() {
       <InviteBottomSheet
         visible={showInviteSheet}
         onClose={() => setShowInviteSheet(false)}
-        courtId="lincoln-park"
-        courtName="Lincoln Park Courts"
+        courtId={CHECKED_IN_COURT.id}
+        courtName={CHECKED_IN_COURT.name}
         userId={user?.id ?? 'unknown'}
       />
 
-      {/* Match Result Overlay - Premium result moment (legacy) */}
+      {/* Match Result Overlay - Premium result moment after a rating change */}
       {matchResult && (
         <MatchResultOverlay
           visible={showMatchResult}
@@ -1258,15 +1546,19 @@ export function HomeScreen() {
           onClose={() => setActiveTab('home')}
           onSwipeToActivity={() => setActiveTab('activity')}
           user={user}
-          singlesRating={user?.elo}
-          doublesRating={user?.elo ? Math.round(user.elo * 1.05) : undefined}
           onUpdateName={(name) => console.log('Update name:', name)}
           onUpdateAvatar={(uri) => console.log('Update avatar:', uri)}
           onMatchHistory={() => {
             setActiveTab('activity');
           }}
+          onReviewQueue={user?.role === 'reviewer' ? () => setShowReviewQueue(true) : undefined}
         />
       )}
+
+      {/* Review Queue - flagged and escalated matches waiting for a decision */}
+      {showReviewQueue && (
+        <ReviewQueueScreen onClose={() => setShowReviewQueue(false)} />
+      )}
     </SafeAreaView>
   );
 }
@@ -1,5 +1,6 @@
 // Service implementations (mock - swap for real API later)
 export { playerService, teamService, locationService } from './playerService';
+export { matchService } from './matchService';
 export {
   initBranch,
   cleanupBranch,
@@ -19,6 +20,8 @@ export type {
   ITeamService,
   ILocationService,
   IMatchService,
+  CreateMatchRequest,
+  DisputeMatchRequest,
   ISessionService,
 } from './types';
 
@@ -0,0 +1,98 @@
+import NetInfo from '@react-native-community/netinfo';
+import type { CreateMatchRequest, DisputeMatchRequest, IMatchService, PaginatedResponse, PaginationParams } from './types';
+import { createApiError, ERROR_CODES } from './types';
+
+// Simulated delay to mimic API calls
+const simulateDelay = (ms: number = 500) =>
+  new Promise(resolve => setTimeout(resolve, ms));
+
+// Responses already sent, by idempotency key, so a replayed request isn't applied twice
+const processedRequests = new Map<string, unknown>();
+
+// Mock requests fail like real ones would when the device has no connection
+async function requireConnection(): Promise<void> {
+  const state = await NetInfo.fetch();
+  if (!state.isConnected || state.isInternetReachable === false) {
+    throw createApiError(ERROR_CODES.NETWORK_ERROR, 'No network connection');
+  }
+}
+
+async function withIdempotency<T>(idempotencyKey: string, run: () => Promise<T>): Promise<T> {
+  if (processedRequests.has(idempotencyKey)) {
+    return processedRequests.get(idempotencyKey) as T;
+  }
+  const response = await run();
+  processedRequests.set(idempotencyKey, response);
+  return response;
+}
+
+export const matchService: IMatchService = {
+  // Create a match record
+  createMatch: async (params: CreateMatchRequest, idempotencyKey: string) => {
+    await requireConnection();
+    return withIdempotency(idempotencyKey, async () => {
+      await simulateDelay(400);
+      // TODO: Replace with API call
+      // return api.post('/matches', params, { headers: { 'Idempotency-Key': idempotencyKey } });
+      return { success: true, matchId: params.matchId };
+    });
+  },
+
+  // Replace the scores of a pending match
+  amendMatch: async (matchId: string, games: CreateMatchRequest['games'], idempotencyKey: string) => {
+    await requireConnection();
+    return withIdempotency(idempotencyKey, async () => {
+      await simulateDelay(300);
+      // TODO: Replace with API call
+      // return api.patch(`/matches/${matchId}`, { games }, { headers: { 'Idempotency-Key': idempotencyKey } });
+      return { success: true };
+    });
+  },
+
+  // Confirm a match result
+  confirmMatch: async (matchId: string, idempotencyKey: string) => {
+    await requireConnection();
+    return withIdempotency(idempotencyKey, async () => {
+      await simulateDelay(300);
+      // TODO: Replace with API call
+      // return api.post(`/matches/${matchId}/confirm`, {}, { headers: { 'Idempotency-Key': idempotencyKey } });
+      return { success: true };
+    });
+  },
+
+  // Dispute a match result
+  disputeMatch: async (matchId: string, request: DisputeMatchRequest, idempotencyKey: string) => {
+    await requireConnection();
+    return withIdempotency(idempotencyKey, async () => {
+      await simulateDelay(300);
+      // TODO: Replace with API call (photos uploaded as multipart)
+      // return api.post(`/matches/${matchId}/dispute`, request, { headers: { 'Idempotency-Key': idempotencyKey } });
+      return { success: true };
+    });
+  },
+
+  // Attach a photo to an open dispute
+  addDisputeEvidence: async (matchId: string, photoUri: string, idempotencyKey: string) => {
+    await requireConnection();
+    return withIdempotency(idempotencyKey, async () => {
+      await simulateDelay(300);
+      // TODO: Replace with API call
+      // return api.post(`/matches/${matchId}/dispute/evidence`, { photoUri }, { headers: { 'Idempotency-Key': idempotencyKey } });
+      return { success: true };
+    });
+  },
+
+  // Get a match by ID
+  getMatch: async (matchId: string): Promise<unknown> => {
+    await simulateDelay(200);
+    // TODO: Replace with API call
+    return null;
+  },
+
+  // Get a user's match history
+  getMatchHistory: async (userId: string, pagination?: PaginationParams): Promise<PaginatedResponse<unknown>> => {
+    await simulateDelay();
+    // TODO: Replace with API call
+    return { items: [], total: 0, page: pagination?.page ?? 1, limit: pagination?.limit ?? 20, hasMore: false };
+  },
+};
@@ -161,23 +161,43 @@ export interface ILocationService {
   checkIn(locationId: string): Promise<{ success: boolean }>;
 }
 
+/**
+ * Match as submitted to the server (IDs are generated on the device)
+ */
+export interface CreateMatchRequest {
+  matchId: string;
+  courtId: string;
+  leagueId?: string;
+  mode: 'singles' | 'doubles';
+  teamAIds: string[];
+  teamBIds: string[];
+  games: { teamAScore: number; teamBScore: number }[];
+  createdAt: number;
+}
+
+export interface DisputeMatchRequest {
+  reason: string;
+  notes?: string;
+  // Photo evidence attached when the dispute was opened
+  photoUris: string[];
+}
+
 /**
  * Match service interface
- * Handles match creation and confirmation
+ * Handles match creation and confirmation.
+ * Writes take an idempotency key so a replayed request is only applied once.
  */
 export interface IMatchService {
   /** Create a new match record */
-  createMatch(params: {
-    courtId: string;
-    mode: 'singles' | 'doubles';
-    teamAIds: string[];
-    teamBIds: string[];
-    games: { teamAScore: number; teamBScore: number }[];
-  }): Promise<{ success: boolean; matchId: string }>;
+  createMatch(params: CreateMatchRequest, idempotencyKey: string): Promise<{ success: boolean; matchId: string }>;
+  /** Replace the scores of a pending match (confirmations restart) */
+  amendMatch(matchId: string, games: CreateMatchRequest['games'], idempotencyKey: string): Promise<{ success: boolean }>;
   /** Confirm a match result */
-  confirmMatch(matchId: string): Promise<{ success: boolean }>;
+  confirmMatch(matchId: string, idempotencyKey: string): Promise<{ success: boolean }>;
   /** Dispute a match result */
-  disputeMatch(matchId: string, reason: string): Promise<{ success: boolean }>;
+  disputeMatch(matchId: string, request: DisputeMatchRequest, idempotencyKey: string): Promise<{ success: boolean }>;
+  /** Attach another photo to an open dispute */
+  addDisputeEvidence(matchId: string, photoUri: string, idempotencyKey: string): Promise<{ success: boolean }>;
   /** Get match by ID */
   getMatch(matchId: string): Promise<unknown>;
   /** Get user's match history */
@@ -1,4 +1,45 @@
-export { matchStore, useMatchStore, playersToParticipants } from './matchStore';
-export type { Match, MatchStatus, MatchParticipant, MatchGame, ConfirmationState } from './matchStore';
+export {
+  matchStore,
+  useMatchStore,
+  playersToParticipants,
+  getCourtLeague,
+  countsTowardRatings,
+  canDisputeMatch,
+  isMatchParticipant,
+  getMatchSubmitterId,
+  getMatchConfirmationPolicy,
+  getConfirmationPolicy,
+  getMatchGameFormat,
+  getGameFormat,
+} from './matchStore';
+export type {
+  Match,
+  MatchStatus,
+  MatchParticipant,
+  MatchGame,
+  MatchRevision,
+  MatchConflict,
+  ConfirmationState,
+  MatchReview,
+  ReviewState,
+  MatchDispute,
+  DisputeReason,
+  DisputeState,
+  DisputeEvent,
+  DisputeEventType,
+  ScoreCorrection,
+} from './matchStore';
 
 export { sessionStore, useSessionStore } from './sessionStore';
+
+export { ratingStore, useRatingStore } from './ratingStore';
+export type { RatingChangeEvent } from './ratingStore';
+
+export { ratingHistoryStore, useRatingHistoryStore } from './ratingHistoryStore';
+export type { RatingHistoryEntry, RatingHistoryRange } from './ratingHistoryStore';
+
+export { outboxStore, useOutboxStore } from './outboxStore';
+export type { OutboxEntry, OutboxOperation, MatchSyncState } from './outboxStore';
+
+export { liveScoreStore, useLiveScoreStore } from './liveScoreStore';
+export type { LiveScoreSession } from './liveScoreStore';
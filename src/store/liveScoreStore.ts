@@ -0,0 +1,133 @@
+// Live Score Store - Rally-by-rally scorekeeping for the game being played
+import { useState, useEffect } from 'react';
+import type { GameFormat } from '../types';
+import { getTimeoutsRemaining, replayRallies } from '../utils';
+import type { GameScoreLine, GameSide, LiveScoreState, RallyEvent, TimeoutEvent } from '../utils';
+
+export interface LiveScoreSession {
+  id: string;
+  format: GameFormat;
+  // Team serving first in game 1
+  firstServingTeam: GameSide;
+  startedAt: number;
+  // Every rally in order; the score is always replayed from these
+  events: RallyEvent[];
+  timeouts: TimeoutEvent[];
+}
+
+type Listener = () => void;
+
+class LiveScoreStore {
+  private session: LiveScoreSession | null = null;
+  private state: LiveScoreState | null = null;
+  private listeners: Set<Listener> = new Set();
+
+  // Subscribe to changes
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notify() {
+    this.state = this.session
+      ? replayRallies(this.session.format, this.session.firstServingTeam, this.session.events, this.session.startedAt)
+      : null;
+    this.listeners.forEach(listener => listener());
+  }
+
+  getSession(): LiveScoreSession | null {
+    return this.session;
+  }
+
+  // Current score, serve and finished games (null when not scoring live)
+  getState(): LiveScoreState | null {
+    return this.state;
+  }
+
+  // Start scoring a new match live
+  start(params: { format: GameFormat; firstServingTeam: GameSide }): LiveScoreSession {
+    this.session = {
+      id: `live-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      format: params.format,
+      firstServingTeam: params.firstServingTeam,
+      startedAt: Date.now(),
+      events: [],
+      timeouts: [],
+    };
+    this.notify();
+    return this.session;
+  }
+
+  // Record who won the rally just played
+  recordRally(winner: GameSide): void {
+    if (!this.session || this.state?.isMatchOver) return;
+    this.session.events.push({ winner, at: Date.now() });
+    this.notify();
+  }
+
+  // Call a timeout for a team, if they have one left this game
+  callTimeout(team: GameSide): boolean {
+    if (!this.session || !this.state || this.state.isMatchOver) return false;
+    const gameIndex = this.state.current.gameIndex;
+    if (getTimeoutsRemaining(this.session.format, this.session.timeouts, gameIndex)[team] === 0) return false;
+
+    this.session.timeouts.push({ team, gameIndex, at: Date.now() });
+    this.notify();
+    return true;
+  }
+
+  // Take back the last rally or timeout, whichever came last
+  undo(): void {
+    if (!this.session) return;
+    const lastRally = this.session.events[this.session.events.length - 1];
+    const lastTimeout = this.session.timeouts[this.session.timeouts.length - 1];
+    if (lastTimeout && (!lastRally || lastTimeout.at >= lastRally.at)) {
+      this.session.timeouts.pop();
+    } else if (lastRally) {
+      this.session.events.pop();
+    } else {
+      return;
+    }
+    this.notify();
+  }
+
+  // Stop scoring and hand back the finished games for submission
+  finish(): GameScoreLine[] {
+    const games = this.state?.completedGames ?? [];
+    this.session = null;
+    this.notify();
+    return games;
+  }
+
+  // Abandon live scoring without keeping anything
+  cancel(): void {
+    this.session = null;
+    this.notify();
+  }
+}
+
+// Singleton instance
+export const liveScoreStore = new LiveScoreStore();
+
+// React hook for live score store
+export function useLiveScoreStore() {
+  const [, setTick] = useState(0);
+
+  useEffect(() => {
+    const unsubscribe = liveScoreStore.subscribe(() => {
+      setTick(t => t + 1);
+    });
+    return unsubscribe;
+  }, []);
+
+  return {
+    session: liveScoreStore.getSession(),
+    liveState: liveScoreStore.getState(),
+    start: liveScoreStore.start.bind(liveScoreStore),
+    recordRally: liveScoreStore.recordRally.bind(liveScoreStore),
+    callTimeout: liveScoreStore.callTimeout.bind(liveScoreStore),
+    undo: liveScoreStore.undo.bind(liveScoreStore),
+    finish: liveScoreStore.finish.bind(liveScoreStore),
+    cancel: liveScoreStore.cancel.bind(liveScoreStore),
+  };
+}
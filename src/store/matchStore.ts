@@ -1,12 +1,97 @@
 // Match Store - Local state management for matches
 // TODO: Replace with backend API calls when ready
 
-import { Player } from '../types';
+import { Player, GameMode, League, ModeRating, PlayerRatings, ConfirmationPolicy, GameFormat, RatingSystem, UserRole } from '../types';
+import { CONTESTS, DEFAULT_CONFIRMATION_POLICY, DEFAULT_GAME_FORMAT, FEATURES, RATING } from '../constants';
+import { mockCourts, mockLeagues } from '../data';
+import {
+  AnomalyFlag,
+  applyInactivityPolicy,
+  ContestQuota,
+  createModeRating,
+  detectMatchAnomalies,
+  diffRatings,
+  getLeagueRatingModel,
+  getPlayerKFactor,
+  getModeElo,
+  getConfirmationWindowMs,
+  findDuplicateSubmission,
+  getContestQuota,
+  getRatedAt,
+  getTrustScore,
+  hasSameScores,
+  isConfirmationSatisfied,
+  rateGlickoMatch,
+  rateMatchParticipants,
+  replayMatchHistory,
+  RatingDiffEntry,
+  resolveConfirmationPolicy,
+  resolveGameFormat,
+  validateMatchGames,
+} from '../utils';
+import { ratingStore, RatingChangeEvent } from './ratingStore';
+import { ratingHistoryStore, RatingHistoryEntry } from './ratingHistoryStore';
+import { loadPersisted, PersistConfig, savePersisted } from './persistence';
+import { outboxStore } from './outboxStore';
 
-export type MatchStatus = 'pending' | 'confirmed' | 'disputed' | 'expired';
+export type MatchStatus = 'pending' | 'confirmed' | 'disputed' | 'expired' | 'voided';
+
+const MATCH_STATUSES: MatchStatus[] = ['pending', 'confirmed', 'disputed', 'expired', 'voided'];
+
+export type ReviewState = 'pending' | 'approved' | 'rejected';
+
+// Manual review for matches the anomaly detector flagged
+export interface MatchReview {
+  state: ReviewState;
+  flaggedAt: number;
+  resolvedAt?: number;
+  note?: string;
+}
 
 export type ConfirmationState = 'approved' | 'declined' | 'pending';
 
+// Reason codes offered in the contest sheet
+export type DisputeReason = 'wrong_score' | 'wrong_players' | 'did_not_play' | 'other';
+
+// open: under way; corrected: fixed scores re-confirmed; upheld: original result stands; voided: match thrown out
+export type DisputeState = 'open' | 'corrected' | 'upheld' | 'voided';
+
+export type DisputeEventType =
+  | 'opened'
+  | 'evidence_added'
+  | 'correction_proposed'
+  | 'correction_confirmed'
+  | 'resolved';
+
+export interface DisputeEvent {
+  type: DisputeEventType;
+  at: number;
+  by: string;
+  note?: string;
+}
+
+// Corrected scores proposed by the submitter; every participant has to re-confirm them
+export interface ScoreCorrection {
+  games: MatchGame[];
+  proposedBy: string;
+  proposedAt: number;
+  confirmations: MatchConfirmation[];
+}
+
+export interface MatchDispute {
+  reason: DisputeReason;
+  notes?: string;
+  // Local URIs of photo evidence
+  photoUris: string[];
+  openedBy: string;
+  openedAt: number;
+  state: DisputeState;
+  correction?: ScoreCorrection;
+  resolvedAt?: number;
+  // Everything that happened, oldest first
+  timeline: DisputeEvent[];
+}
+
 export interface MatchParticipant {
   id: string;
   name: string;
@@ -25,11 +110,29 @@ export interface MatchGame {
   teamBScore: number;
 }
 
+// Two submissions of the same match that disagree on the score
+export interface MatchConflict {
+  withMatchId: string;
+  detectedAt: number;
+  state: 'open' | 'resolved';
+  resolvedAt?: number;
+  keptMatchId?: string;
+}
+
+// A previous version of a pending match's scores, kept when it's edited
+export interface MatchRevision {
+  games: MatchGame[];
+  editedBy: string;
+  editedAt: number;
+}
+
 export interface Match {
   id: string;
   createdAt: number; // ms timestamp
   courtId: string;
   courtName: string;
+  // League the match counts toward (decides the rating model)
+  leagueId?: string;
   mode: 'singles' | 'doubles';
   // Team A = current user's team, Team B = opponents
   teamA: MatchParticipant[];
@@ -39,19 +142,126 @@ export interface Match {
   teamAWins: number;
   teamBWins: number;
   status: MatchStatus;
-  expiresAt: number; // createdAt + 24h
+  expiresAt: number; // createdAt + the policy's confirmation window
+  // Who logged the match (their confirmation is approved on submission)
+  submittedBy?: string;
   confirmations: MatchConfirmation[];
+  // Policy in force when the match was submitted; decides when it's confirmed and what happens at expiry
+  confirmationPolicy?: ConfirmationPolicy;
+  // Scoring rules the games were checked against at submission
+  gameFormat?: GameFormat;
+  // Set when the window closed under an 'escalate' policy; the match waits for manual resolution
+  escalatedAt?: number;
   // Rating changes (optional - calculated after confirmation)
   ratingDelta?: number;
+  // When ratings were applied (set once, on confirmation)
+  ratedAt?: number;
+  // Suspicious patterns found at submission; flagged matches wait for review before rating
+  anomalyFlags?: AnomalyFlag[];
+  review?: MatchReview;
+  dispute?: MatchDispute;
+  // Earlier scores, oldest first (pending matches only; confirmed results go through disputes)
+  revisions?: MatchRevision[];
+  // Doubles session the match was played in (its games count as one meeting for anomaly checks)
+  sessionId?: string;
+  // Other submissions of this match with the same scores, folded in as approvals
+  mergedSubmissions?: { submittedBy: string; submittedAt: number }[];
+  // Open while another submission of this match reports different scores
+  conflict?: MatchConflict;
+}
+
+// Matches stored before submittedBy existed have the submitter's confirmation first
+export function getMatchSubmitterId(match: Match): string | undefined {
+  return match.submittedBy ?? match.confirmations[0]?.odinal;
+}
+
+// The confirmation policy a match is held to
+export function getMatchConfirmationPolicy(match: Match): ConfirmationPolicy {
+  return match.confirmationPolicy ?? DEFAULT_CONFIRMATION_POLICY;
+}
+
+// Matches stored before formats existed were all played to 11, win by 2
+export function getMatchGameFormat(match: Match): GameFormat {
+  return match.gameFormat ?? DEFAULT_GAME_FORMAT;
+}
+
+// Pending matches can always be contested; confirmed ones only for a few days after they're played.
+// A match is contested at most once, so a settled dispute (and its opener's penalty) stands.
+export function canDisputeMatch(match: Match, now: number = Date.now()): boolean {
+  if (match.dispute) return false;
+  if (match.status === 'pending') return true;
+  return match.status === 'confirmed' &&
+    now - match.createdAt <= CONTESTS.CONFIRMED_DISPUTE_DAYS * 24 * 60 * 60 * 1000;
 }
 
-// Simple in-memory store with listeners
+// Whether the user is on either team
+export function isMatchParticipant(match: Match, userId: string): boolean {
+  return [...match.teamA, ...match.teamB].some(p => p.id === userId);
+}
+
+// Players on the other team from the submitter
+function getOpponentIds(match: Match): string[] {
+  const submitterId = getMatchSubmitterId(match);
+  const submitterOnTeamA = match.teamA.some(p => p.id === submitterId);
+  return (submitterOnTeamA ? match.teamB : match.teamA).map(p => p.id);
+}
+
+function countWins(games: MatchGame[]): { teamAWins: number; teamBWins: number } {
+  return {
+    teamAWins: games.filter(g => g.teamAScore > g.teamBScore).length,
+    teamBWins: games.filter(g => g.teamBScore > g.teamAScore).length,
+  };
+}
+
+// Whether a match's result should move ratings (confirmed and not held for review)
+export function countsTowardRatings(match: Match): boolean {
+  return match.status === 'confirmed' && match.review?.state !== 'pending';
+}
+
+// Shape of the match store on device
+interface PersistedMatches {
+  matches: Match[];
+}
+
+function isPersistedMatch(value: unknown): value is Match {
+  if (typeof value !== 'object' || value === null) return false;
+  const m = value as Partial<Match>;
+  return (
+    typeof m.id === 'string' &&
+    typeof m.createdAt === 'number' &&
+    typeof m.expiresAt === 'number' &&
+    MATCH_STATUSES.includes(m.status as MatchStatus) &&
+    Array.isArray(m.teamA) &&
+    Array.isArray(m.teamB) &&
+    Array.isArray(m.games) &&
+    Array.isArray(m.confirmations)
+  );
+}
+
+// Bump version and add a migration from the old version whenever the stored shape changes
+const MATCH_PERSIST_CONFIG: PersistConfig<PersistedMatches> = {
+  key: 'paddle:matches',
+  version: 1,
+  migrations: {},
+  validate: (data): data is PersistedMatches =>
+    typeof data === 'object' &&
+    data !== null &&
+    Array.isArray((data as PersistedMatches).matches) &&
+    (data as PersistedMatches).matches.every(isPersistedMatch),
+};
+
+// In-memory store with listeners, persisted to device storage when offline support is on
 type Listener = () => void;
 
 class MatchStore {
   private matches: Match[] = [];
   private listeners: Set<Listener> = new Set();
   private currentUserId: string = 'current-user'; // TODO: Get from auth
+  private currentUserRole: UserRole = 'player';
+  private hydrated = false;
+  private hydration: Promise<void> | null = null;
+  // Writes run one at a time so an older snapshot never lands after a newer one
+  private saveQueue: Promise<void> = Promise.resolve();
 
   // Subscribe to changes
   subscribe(listener: Listener): () => void {
@@ -60,9 +270,50 @@ class MatchStore {
   }
 
   private notify() {
+    this.persist();
     this.listeners.forEach(listener => listener());
   }
 
+  // Load stored matches (once). Bad data is quarantined and the store starts empty.
+  hydrate(): Promise<void> {
+    if (!this.hydration) {
+      this.hydration = this.loadFromStorage().finally(() => {
+        this.hydrated = true;
+        this.notify();
+      });
+    }
+    return this.hydration;
+  }
+
+  // Whether stored matches have been loaded
+  isHydrated(): boolean {
+    return this.hydrated;
+  }
+
+  private async loadFromStorage(): Promise<void> {
+    if (!FEATURES.ENABLE_OFFLINE) return;
+
+    try {
+      const result = await loadPersisted(MATCH_PERSIST_CONFIG);
+      if (result.status !== 'loaded') return;
+
+      // Keep anything created while loading on top of the stored matches
+      const loadedIds = new Set(result.data.matches.map(m => m.id));
+      this.matches = [...this.matches.filter(m => !loadedIds.has(m.id)), ...result.data.matches];
+    } catch (error) {
+      console.warn('[MatchStore] Failed to load stored matches:', error);
+    }
+  }
+
+  private persist(): void {
+    if (!FEATURES.ENABLE_OFFLINE || !this.hydrated) return;
+
+    const snapshot: PersistedMatches = { matches: this.matches };
+    this.saveQueue = this.saveQueue
+      .then(() => savePersisted(MATCH_PERSIST_CONFIG, snapshot))
+      .catch(error => console.warn('[MatchStore] Failed to save matches:', error));
+  }
+
   // Get all matches
   getMatches(): Match[] {
     return [...this.matches];
@@ -91,30 +342,40 @@ class MatchStore {
   createMatch(params: {
     courtId: string;
     courtName: string;
+    leagueId?: string;
     mode: 'singles' | 'doubles';
     teamA: MatchParticipant[];
     teamB: MatchParticipant[];
     games: MatchGame[];
     currentUserId: string;
+    sessionId?: string;
   }): Match {
     const now = Date.now();
-    const TWENTY_FOUR_HOURS = 24 * 60 * 60 * 1000;
+
+    // Only finished matches that follow the court's scoring rules are accepted
+    const gameFormat = getGameFormat(params.courtId, params.leagueId);
+    const gamesError = validateMatchGames(gameFormat, params.games);
+    if (gamesError) {
+      throw new Error(`Invalid match scores: ${gamesError}`);
+    }
 
     // Calculate win-loss record
-    const teamAWins = params.games.filter(g => g.teamAScore > g.teamBScore).length;
-    const teamBWins = params.games.filter(g => g.teamBScore > g.teamAScore).length;
+    const { teamAWins, teamBWins } = countWins(params.games);
 
-    // Create confirmations - submitter auto-approves, opponents pending
-    const confirmations: MatchConfirmation[] = [
-      { odinal: params.currentUserId, state: 'approved' },
-      ...params.teamB.map(p => ({ odinal: p.id, state: 'pending' as ConfirmationState })),
-    ];
+    // Everyone in the match gets a confirmation (submitter auto-approves);
+    // the policy decides whose approvals are needed
+    const confirmations: MatchConfirmation[] = [...params.teamA, ...params.teamB].map(p => ({
+      odinal: p.id,
+      state: p.id === params.currentUserId ? 'approved' : 'pending',
+    }));
+    const confirmationPolicy = getConfirmationPolicy(params.courtId, params.leagueId);
 
     const match: Match = {
       id: `match-${now}-${Math.random().toString(36).substr(2, 9)}`,
       createdAt: now,
       courtId: params.courtId,
       courtName: params.courtName,
+      leagueId: params.leagueId,
       mode: params.mode,
       teamA: params.teamA,
       teamB: params.teamB,
@@ -122,12 +383,51 @@ class MatchStore {
       teamAWins,
       teamBWins,
       status: 'pending',
-      expiresAt: now + TWENTY_FOUR_HOURS,
+      expiresAt: now + getConfirmationWindowMs(confirmationPolicy),
+      submittedBy: params.currentUserId,
       confirmations,
+      confirmationPolicy,
+      gameFormat,
+      sessionId: params.sessionId,
     };
 
+    // The other team may have logged this match already
+    const duplicate = findDuplicateSubmission(
+      match,
+      this.matches.filter(m => m.status === 'pending' && m.conflict?.state !== 'open')
+    );
+    if (duplicate && hasSameScores(duplicate, match)) {
+      return this.mergeDuplicate(duplicate, params.currentUserId, now);
+    }
+    if (duplicate) {
+      match.conflict = { withMatchId: duplicate.id, detectedAt: now, state: 'open' };
+      duplicate.conflict = { withMatchId: match.id, detectedAt: now, state: 'open' };
+    }
+
+    // Hold suspicious results for review instead of rating them on confirmation
+    const flags = detectMatchAnomalies(match, this.matches.filter(m => m.status !== 'voided'));
+    if (flags.length > 0) {
+      match.anomalyFlags = flags;
+      match.review = { state: 'pending', flaggedAt: now };
+    }
+
     this.matches.unshift(match); // Add to beginning
     this.notify();
+
+    // Saved locally first; the outbox gets it to the server when there's signal
+    outboxStore.enqueue(match.id, {
+      type: 'create_match',
+      request: {
+        matchId: match.id,
+        courtId: match.courtId,
+        leagueId: match.leagueId,
+        mode: match.mode,
+        teamAIds: match.teamA.map(p => p.id),
+        teamBIds: match.teamB.map(p => p.id),
+        games: match.games,
+        createdAt: match.createdAt,
+      },
+    });
     return match;
   }
 
@@ -135,39 +435,499 @@ class MatchStore {
   confirmMatch(matchId: string, userId: string): void {
     const match = this.matches.find(m => m.id === matchId);
     if (!match) return;
+    // Disputed, expired or already-confirmed matches can't be confirmed
+    if (match.status !== 'pending') return;
+    // Conflicting submissions have to be settled first
+    if (match.conflict?.state === 'open') return;
+
+    // Escalated matches still accept late confirmations
+    const now = Date.now();
+    if (!match.escalatedAt && now > match.expiresAt) {
+      this.handleExpiry(match, now);
+      this.notify();
+      return;
+    }
 
     const confirmation = match.confirmations.find(c => c.odinal === userId);
     if (confirmation) {
+      if (confirmation.state !== 'approved' && userId === this.currentUserId) {
+        outboxStore.enqueue(match.id, { type: 'confirm_match' });
+      }
       confirmation.state = 'approved';
     }
 
-    // Check if all confirmations are approved
-    const allApproved = match.confirmations.every(c => c.state === 'approved');
-    if (allApproved) {
+    this.confirmIfSatisfied(match);
+    this.notify();
+  }
+
+  // Mark a pending match confirmed (and rate it) once its policy is met
+  private confirmIfSatisfied(match: Match): void {
+    if (isConfirmationSatisfied(getMatchConfirmationPolicy(match), match.confirmations, getOpponentIds(match))) {
       match.status = 'confirmed';
+      match.escalatedAt = undefined;
+      this.applyRatings(match);
     }
+  }
 
+  // Fold a second submission with the same scores into the existing match as an approval
+  private mergeDuplicate(existing: Match, submitterId: string, now: number): Match {
+    existing.mergedSubmissions = [
+      ...(existing.mergedSubmissions ?? []),
+      { submittedBy: submitterId, submittedAt: now },
+    ];
+    const confirmation = existing.confirmations.find(c => c.odinal === submitterId);
+    if (confirmation) confirmation.state = 'approved';
+
+    this.confirmIfSatisfied(existing);
     this.notify();
+    outboxStore.enqueue(existing.id, { type: 'confirm_match' });
+    return existing;
+  }
+
+  // Get pending matches with an open score conflict
+  getConflicts(): Match[] {
+    return this.matches.filter(m => m.status === 'pending' && m.conflict?.state === 'open');
   }
 
-  // Dispute a match
-  disputeMatch(matchId: string, _reason?: string): void {
+  // Settle a conflict by keeping one submission's scores; the other is voided
+  // and the person resolving it counts as approving the kept scores
+  resolveConflict(matchId: string, keepMatchId: string, userId: string = this.currentUserId): void {
     const match = this.matches.find(m => m.id === matchId);
-    if (!match) return;
+    if (!match?.conflict || match.conflict.state !== 'open') return;
+    const other = this.matches.find(m => m.id === match.conflict!.withMatchId);
+    if (!other || (keepMatchId !== match.id && keepMatchId !== other.id)) return;
+
+    const now = Date.now();
+    const kept = keepMatchId === match.id ? match : other;
+    const dropped = kept === match ? other : match;
+    [kept, dropped].forEach(m => {
+      m.conflict = { ...m.conflict!, state: 'resolved', resolvedAt: now, keptMatchId: kept.id };
+    });
+    dropped.status = 'voided';
+
+    const confirmation = kept.confirmations.find(c => c.odinal === userId);
+    if (confirmation && confirmation.state !== 'approved') {
+      confirmation.state = 'approved';
+      if (userId === this.currentUserId) {
+        outboxStore.enqueue(kept.id, { type: 'confirm_match' });
+      }
+    }
+
+    this.confirmIfSatisfied(kept);
+    this.notify();
+  }
+
+  // Apply the match's expiry action once its confirmation window has closed
+  private handleExpiry(match: Match, now: number): void {
+    switch (getMatchConfirmationPolicy(match).onExpiry) {
+      case 'auto_confirm':
+        match.status = 'confirmed';
+        this.applyRatings(match);
+        break;
+      case 'escalate':
+        match.escalatedAt = now;
+        break;
+      default:
+        match.status = 'expired';
+    }
+  }
+
+  // Get pending matches whose window closed under an 'escalate' policy
+  getEscalatedMatches(): Match[] {
+    return this.matches.filter(m => m.status === 'pending' && m.escalatedAt !== undefined);
+  }
 
+  // Settle an escalated match (reviewer): confirm it as logged or let it expire
+  resolveEscalation(matchId: string, outcome: 'confirm' | 'expire'): void {
+    const match = this.matches.find(m => m.id === matchId);
+    if (!match || match.status !== 'pending' || !match.escalatedAt || !this.canReview(match)) return;
+
+    match.escalatedAt = undefined;
+    if (outcome === 'confirm') {
+      match.status = 'confirmed';
+      this.applyRatings(match);
+    } else {
+      match.status = 'expired';
+    }
+    this.notify();
+  }
+
+  // Correct the scores of a pending match. The old scores go into the revision history,
+  // everyone but the editor has to confirm again, and the confirmation window restarts.
+  amendMatch(matchId: string, games: MatchGame[], editorId: string = this.currentUserId): boolean {
+    const match = this.matches.find(m => m.id === matchId);
+    if (!match || match.status !== 'pending') return false;
+    if (!match.confirmations.some(c => c.odinal === editorId)) return false;
+    if (validateMatchGames(getMatchGameFormat(match), games)) return false;
+
+    const now = Date.now();
+    match.revisions = [...(match.revisions ?? []), { games: match.games, editedBy: editorId, editedAt: now }];
+    match.games = games;
+    Object.assign(match, countWins(games));
+    match.confirmations = match.confirmations.map(c => ({
+      ...c,
+      state: c.odinal === editorId ? 'approved' : 'pending',
+    }));
+    match.expiresAt = now + getConfirmationWindowMs(getMatchConfirmationPolicy(match));
+    match.escalatedAt = undefined;
+
+    // New scores get the same screening as a new submission, and go back to review
+    // if flagged even when the old scores had already been approved
+    const flags = detectMatchAnomalies(match, this.matches.filter(m => m.id !== match.id && m.status !== 'voided'));
+    if (flags.length > 0) {
+      match.anomalyFlags = flags;
+      match.review = { state: 'pending', flaggedAt: now };
+    }
+
+    this.notify();
+    outboxStore.enqueue(match.id, { type: 'amend_match', games });
+    return true;
+  }
+
+  // Work out every participant's rating change for a result without storing anything.
+  // Confirmation runs this same calculation, so previews match applied results.
+  // Under Glicko-2 the new deviation and volatility come back in uncertainty.
+  projectRatingChanges(
+    params: Pick<Match, 'mode' | 'leagueId' | 'teamA' | 'teamB' | 'games'>,
+    now: number = Date.now(),
+    system: RatingSystem = RATING.SYSTEM
+  ): {
+    teamA: MatchParticipant[];
+    teamB: MatchParticipant[];
+    uncertainty?: Record<string, Pick<ModeRating, 'deviation' | 'volatility'>>;
+  } {
+    const model = getLeagueRatingModel(mockLeagues.find(l => l.id === params.leagueId));
+
+    // Stored ratings as of now (inactivity applied); players with no stored record
+    // haven't played yet, so they get the provisional K like in a replay
+    const kFactors: Record<string, number> = {};
+    const currentRatings: Record<string, ModeRating> = {};
+    const withCurrentRating = (p: MatchParticipant): MatchParticipant => {
+      const stored = ratingStore.getRating(p.id, params.mode);
+      const current = stored ? applyInactivityPolicy(stored, now) : undefined;
+      kFactors[p.id] = getPlayerKFactor(current ?? { gamesPlayed: 0 });
+      currentRatings[p.id] = current ?? createModeRating(p.ratingBefore ?? RATING.DEFAULT_ELO);
+      return { ...p, ratingBefore: current?.elo ?? p.ratingBefore ?? RATING.DEFAULT_ELO };
+    };
+
+    const teamA = params.teamA.map(withCurrentRating);
+    const teamB = params.teamB.map(withCurrentRating);
+    if (system !== 'glicko2') {
+      return rateMatchParticipants(teamA, teamB, params.games, model, RATING.K_FACTOR, kFactors);
+    }
+
+    const { teamAWins, teamBWins } = countWins(params.games);
+    const updated = rateGlickoMatch(currentRatings, params.mode, {
+      teamA: teamA.map(p => p.id),
+      teamB: teamB.map(p => p.id),
+      teamAScore: teamAWins > teamBWins ? 1 : 0,
+      playedAt: now,
+    });
+    const withResult = (p: MatchParticipant): MatchParticipant => ({ ...p, ratingAfter: Math.round(updated[p.id].rating) });
+    return { teamA: teamA.map(withResult), teamB: teamB.map(withResult), uncertainty: updated };
+  }
+
+  // Run the rating engine over a confirmed match and store every player's new rating
+  private applyRatings(match: Match): void {
+    if (!countsTowardRatings(match) || match.ratedAt) return;
+
+    const now = Date.now();
+
+    // Bring idle players' ratings up to date before they're used
+    [...match.teamA, ...match.teamB].forEach(p => ratingStore.checkInactivity(p.id, now));
+
+    const rated = this.projectRatingChanges(match, now);
+
+    const teamAWon = match.teamAWins > match.teamBWins;
+    match.teamA = rated.teamA;
+    match.teamB = rated.teamB;
+    match.ratedAt = now;
+
+    const toChange = (p: MatchParticipant, won: boolean): RatingChangeEvent => ({
+      matchId: match.id,
+      playerId: p.id,
+      mode: match.mode,
+      ratingBefore: p.ratingBefore!,
+      ratingAfter: p.ratingAfter!,
+      delta: p.ratingAfter! - p.ratingBefore!,
+      won,
+      timestamp: now,
+      deviationAfter: rated.uncertainty?.[p.id].deviation,
+      volatilityAfter: rated.uncertainty?.[p.id].volatility,
+    });
+    const changes = [
+      ...rated.teamA.map(p => toChange(p, teamAWon)),
+      ...rated.teamB.map(p => toChange(p, !teamAWon)),
+    ];
+
+    const userChange = changes.find(c => c.playerId === this.currentUserId);
+    if (userChange) {
+      match.ratingDelta = userChange.delta;
+    }
+
+    ratingHistoryStore.appendEntries(changes.map(c => ({
+      matchId: c.matchId,
+      playerId: c.playerId,
+      mode: c.mode,
+      courtId: match.courtId,
+      courtName: match.courtName,
+      ratingBefore: c.ratingBefore,
+      ratingAfter: c.ratingAfter,
+      delta: c.delta,
+      won: c.won,
+      timestamp: c.timestamp,
+    })));
+    ratingStore.applyChanges(changes);
+  }
+
+  // Replay every confirmed match from a clean slate and report old vs new ratings.
+  // Only writes the results back when apply is set; otherwise it's a dry run.
+  recomputeRatings(options: { apply?: boolean } = {}): RatingDiffEntry[] {
+    const confirmed = this.matches.filter(countsTowardRatings);
+    const result = replayMatchHistory(confirmed, mockLeagues);
+
+    const oldRatings: Record<string, PlayerRatings | undefined> = {};
+    this.matches.forEach(m => {
+      [...m.teamA, ...m.teamB].forEach(p => {
+        oldRatings[p.id] = ratingStore.getRatings(p.id);
+      });
+    });
+    const diff = diffRatings(oldRatings, result.ratings);
+
+    if (!options.apply) return diff;
+
+    const history: RatingHistoryEntry[] = [];
+    result.matches.forEach(replayed => {
+      const match = this.matches.find(m => m.id === replayed.matchId)!;
+      const withResult = (p: MatchParticipant, i: number, team: typeof replayed.teamA): MatchParticipant => ({
+        ...p,
+        ratingBefore: team[i].ratingBefore,
+        ratingAfter: team[i].ratingAfter,
+      });
+      match.teamA = match.teamA.map((p, i) => withResult(p, i, replayed.teamA));
+      match.teamB = match.teamB.map((p, i) => withResult(p, i, replayed.teamB));
+      const ratedAt = getRatedAt(match);
+      match.ratedAt = ratedAt;
+
+      [...replayed.teamA, ...replayed.teamB].forEach(r => {
+        if (r.id === this.currentUserId) match.ratingDelta = r.ratingAfter - r.ratingBefore;
+        history.push({
+          matchId: match.id,
+          playerId: r.id,
+          mode: match.mode,
+          courtId: match.courtId,
+          courtName: match.courtName,
+          ratingBefore: r.ratingBefore,
+          ratingAfter: r.ratingAfter,
+          delta: r.ratingAfter - r.ratingBefore,
+          won: r.won,
+          timestamp: ratedAt,
+        });
+      });
+    });
+
+    // Matches that no longer count keep their scores but lose their rating result
+    this.matches.forEach(m => {
+      if (countsTowardRatings(m) || !m.ratedAt) return;
+      m.ratedAt = undefined;
+      m.ratingDelta = undefined;
+      m.teamA = m.teamA.map(p => ({ ...p, ratingAfter: undefined }));
+      m.teamB = m.teamB.map(p => ({ ...p, ratingAfter: undefined }));
+    });
+
+    ratingStore.replaceRatings(result.ratings);
+    ratingHistoryStore.replaceHistory(history);
+    this.notify();
+    return diff;
+  }
+
+  // Get flagged matches waiting for review
+  getReviewQueue(): Match[] {
+    return this.matches.filter(m => m.review?.state === 'pending');
+  }
+
+  // Whether the current user may settle a held match: reviewers only, and never
+  // for a match they played in (they'd be approving their own result)
+  canReview(match: Match): boolean {
+    return this.currentUserRole === 'reviewer' && !isMatchParticipant(match, this.currentUserId);
+  }
+
+  // Clear a flagged match; ratings apply now if it was already confirmed
+  approveReview(matchId: string, note?: string): void {
+    const match = this.matches.find(m => m.id === matchId);
+    if (!match || match.review?.state !== 'pending' || !this.canReview(match)) return;
+
+    match.review = { ...match.review, state: 'approved', resolvedAt: Date.now(), note };
+    this.applyRatings(match);
+    this.notify();
+  }
+
+  // Reject a flagged match; it's voided and never affects ratings
+  rejectReview(matchId: string, note?: string): void {
+    const match = this.matches.find(m => m.id === matchId);
+    if (!match || match.review?.state !== 'pending' || !this.canReview(match)) return;
+
+    match.review = { ...match.review, state: 'rejected', resolvedAt: Date.now(), note };
+    match.status = 'voided';
+    this.notify();
+  }
+
+  // Every dispute on record, across all matches
+  private getDisputes(): MatchDispute[] {
+    return this.matches.flatMap(m => (m.dispute ? [m.dispute] : []));
+  }
+
+  // Contests a user has left in the rolling window
+  getContestQuota(userId: string = this.currentUserId, now: number = Date.now()): ContestQuota {
+    return getContestQuota(this.getDisputes(), userId, now);
+  }
+
+  // A user's trust score (frivolous contests lower it)
+  getTrustScore(userId: string = this.currentUserId): number {
+    return getTrustScore(this.getDisputes(), userId);
+  }
+
+  // Contest a pending match, or a confirmed one inside the dispute window: records the reason, notes and photos and opens a dispute.
+  // Returns false if the match can't be contested or the user is out of contests.
+  disputeMatch(
+    matchId: string,
+    reason: DisputeReason,
+    details: { notes?: string; photoUris?: string[] } = {}
+  ): boolean {
+    const match = this.matches.find(m => m.id === matchId);
+    if (!match || !canDisputeMatch(match)) return false;
+    if (this.getContestQuota().remaining === 0) return false;
+
+    const now = Date.now();
+    const notes = details.notes?.trim() || undefined;
     match.status = 'disputed';
-    // TODO: Store dispute reason, notify admin, etc.
+    match.dispute = {
+      reason,
+      notes,
+      photoUris: details.photoUris ?? [],
+      openedBy: this.currentUserId,
+      openedAt: now,
+      state: 'open',
+      timeline: [{ type: 'opened', at: now, by: this.currentUserId, note: notes }],
+    };
+    this.notify();
+    outboxStore.enqueue(match.id, {
+      type: 'dispute_match',
+      request: { reason, notes, photoUris: match.dispute.photoUris },
+    });
+    return true;
+  }
+
+  // Attach another photo to an open dispute
+  addDisputeEvidence(matchId: string, photoUri: string): void {
+    const dispute = this.matches.find(m => m.id === matchId)?.dispute;
+    if (!dispute || dispute.state !== 'open') return;
+
+    dispute.photoUris = [...dispute.photoUris, photoUri];
+    dispute.timeline.push({ type: 'evidence_added', at: Date.now(), by: this.currentUserId });
+    this.notify();
+    outboxStore.enqueue(matchId, { type: 'add_dispute_evidence', photoUri });
+  }
+
+  // Submitter proposes corrected scores; everyone else in the match has to re-confirm them
+  proposeCorrection(matchId: string, games: MatchGame[], note?: string): void {
+    const match = this.matches.find(m => m.id === matchId);
+    const dispute = match?.dispute;
+    if (!match || !dispute || dispute.state !== 'open') return;
+    if (getMatchSubmitterId(match) !== this.currentUserId) return;
+    if (validateMatchGames(getMatchGameFormat(match), games)) return;
+
+    const now = Date.now();
+    dispute.correction = {
+      games,
+      proposedBy: this.currentUserId,
+      proposedAt: now,
+      confirmations: [...match.teamA, ...match.teamB].map(p => ({
+        odinal: p.id,
+        state: p.id === this.currentUserId ? 'approved' : 'pending',
+      })),
+    };
+    dispute.timeline.push({ type: 'correction_proposed', at: now, by: this.currentUserId, note });
+    this.notify();
+  }
+
+  // Re-confirm proposed scores; once everyone has, they replace the original and the match is rated
+  confirmCorrection(matchId: string, userId: string): void {
+    const match = this.matches.find(m => m.id === matchId);
+    const correction = match?.dispute?.correction;
+    if (!match || !match.dispute || match.dispute.state !== 'open' || !correction) return;
+
+    const confirmation = correction.confirmations.find(c => c.odinal === userId);
+    if (!confirmation || confirmation.state === 'approved') return;
+
+    const now = Date.now();
+    confirmation.state = 'approved';
+    match.dispute.timeline.push({ type: 'correction_confirmed', at: now, by: userId });
+
+    if (correction.confirmations.every(c => c.state === 'approved')) {
+      this.reverseRatings(match);
+      match.games = correction.games;
+      Object.assign(match, countWins(correction.games));
+      match.confirmations = match.confirmations.map(c => ({ ...c, state: 'approved' }));
+      match.status = 'confirmed';
+      match.dispute.state = 'corrected';
+      match.dispute.resolvedAt = now;
+      match.dispute.timeline.push({ type: 'resolved', at: now, by: userId, note: 'corrected' });
+      this.applyRatings(match);
+    }
+
     this.notify();
   }
 
+  // Get matches with a dispute still open (shown to reviewers)
+  getOpenDisputes(): Match[] {
+    return this.matches.filter(m => m.dispute?.state === 'open');
+  }
+
+  // Close a dispute without a correction (reviewer): upheld keeps the original result, voided throws it out
+  resolveDispute(matchId: string, resolution: 'upheld' | 'voided', note?: string): void {
+    const match = this.matches.find(m => m.id === matchId);
+    if (!match?.dispute || match.dispute.state !== 'open' || !this.canReview(match)) return;
+
+    const now = Date.now();
+    match.dispute.state = resolution;
+    match.dispute.resolvedAt = now;
+    match.dispute.timeline.push({ type: 'resolved', at: now, by: this.currentUserId, note: note ?? resolution });
+
+    if (resolution === 'upheld') {
+      match.status = 'confirmed';
+      match.confirmations = match.confirmations.map(c => ({ ...c, state: 'approved' }));
+      this.applyRatings(match);
+    } else {
+      match.status = 'voided';
+      this.reverseRatings(match);
+    }
+
+    this.notify();
+  }
+
+  // Take a rated match's result back out of ratings and history, e.g. before a
+  // contested confirmed match is corrected or voided. Only this match's own
+  // changes are undone; every other rating stays as it is.
+  private reverseRatings(match: Match): void {
+    if (!match.ratedAt) return;
+
+    ratingStore.reverseChanges(ratingHistoryStore.getMatchEntries(match.id));
+    ratingHistoryStore.removeMatch(match.id);
+    match.ratedAt = undefined;
+    match.ratingDelta = undefined;
+    match.teamA = match.teamA.map(p => ({ ...p, ratingAfter: undefined }));
+    match.teamB = match.teamB.map(p => ({ ...p, ratingAfter: undefined }));
+  }
+
   // Check for expired matches
   checkExpiredMatches(): void {
     const now = Date.now();
     let hasChanges = false;
 
     this.matches.forEach(match => {
-      if (match.status === 'pending' && now > match.expiresAt) {
-        match.status = 'expired';
+      if (match.status === 'pending' && !match.escalatedAt && now > match.expiresAt) {
+        this.handleExpiry(match, now);
         hasChanges = true;
       }
     });
@@ -192,6 +952,17 @@ class MatchStore {
     return this.currentUserId;
   }
 
+  // Set current user's role (call from auth)
+  setCurrentUserRole(role: UserRole): void {
+    this.currentUserRole = role;
+    this.notify();
+  }
+
+  // Whether the current user works the review queue
+  isReviewer(): boolean {
+    return this.currentUserRole === 'reviewer';
+  }
+
   // Clear all matches (for testing/logout)
   clearMatches(): void {
     this.matches = [];
@@ -211,6 +982,7 @@ class MatchStore {
       createdAt: now - 5 * 60 * 1000, // 5 mins ago
       courtId: 'lincoln-park',
       courtName: 'Lincoln Park',
+      leagueId: 'lincoln-park-open',
       mode: 'doubles',
       teamA: [
         { id: 'current-user', name: 'You', avatarUrl: 'https://i.pravatar.cc/150?u=you', ratingBefore: 1420 },
@@ -229,6 +1001,8 @@ class MatchStore {
       teamBWins: 1,
       status: 'pending',
       expiresAt: now + TWENTY_FOUR_HOURS,
+      submittedBy: 'opp-1',
+      confirmationPolicy: getConfirmationPolicy('lincoln-park', 'lincoln-park-open'),
       confirmations: [
         { odinal: 'current-user', state: 'pending' },
         { odinal: 'partner-1', state: 'approved' },
@@ -243,6 +1017,7 @@ class MatchStore {
       createdAt: now - 24 * 60 * 60 * 1000, // Yesterday
       courtId: 'lincoln-park',
       courtName: 'Lincoln Park',
+      leagueId: 'lincoln-park-open',
       mode: 'doubles',
       teamA: [
         { id: 'current-user', name: 'You', avatarUrl: 'https://i.pravatar.cc/150?u=you', ratingBefore: 1400, ratingAfter: 1420 },
@@ -275,6 +1050,7 @@ class MatchStore {
       createdAt: now - 2 * 24 * 60 * 60 * 1000, // 2 days ago
       courtId: 'riverside-courts',
       courtName: 'Riverside Courts',
+      leagueId: 'riverside-ladder',
       mode: 'singles',
       teamA: [
         { id: 'current-user', name: 'You', avatarUrl: 'https://i.pravatar.cc/150?u=you', ratingBefore: 1420, ratingAfter: 1400 },
@@ -307,16 +1083,37 @@ class MatchStore {
 export const matchStore = new MatchStore();
 
 // Helper to convert Players to MatchParticipants
-export function playersToParticipants(players: Player[], ratings?: { before?: number; after?: number }[]): MatchParticipant[] {
+export function playersToParticipants(
+  players: Player[],
+  ratings?: { before?: number; after?: number }[],
+  mode?: GameMode
+): MatchParticipant[] {
   return players.map((p, i) => ({
     id: p.id,
     name: p.name,
     avatarUrl: p.avatar,
-    ratingBefore: ratings?.[i]?.before ?? p.elo,
+    ratingBefore: ratings?.[i]?.before ?? (mode ? getModeElo(p, mode) : p.elo),
     ratingAfter: ratings?.[i]?.after,
   }));
 }
 
+// Get the league a court's matches are rated under (if any)
+export function getCourtLeague(courtId: string): League | undefined {
+  return mockLeagues.find(l => l.courtIds.includes(courtId));
+}
+
+// Get the confirmation policy for matches at a court (court setting, then league, then default)
+export function getConfirmationPolicy(courtId: string, leagueId?: string): ConfirmationPolicy {
+  const league = leagueId ? mockLeagues.find(l => l.id === leagueId) : getCourtLeague(courtId);
+  return resolveConfirmationPolicy(mockCourts.find(c => c.id === courtId), league);
+}
+
+// Get the game format for matches at a court (court setting, then league, then default)
+export function getGameFormat(courtId: string, leagueId?: string): GameFormat {
+  const league = leagueId ? mockLeagues.find(l => l.id === leagueId) : getCourtLeague(courtId);
+  return resolveGameFormat(mockCourts.find(c => c.id === courtId), league);
+}
+
 // Helper hook for React components
 import { useState, useEffect } from 'react';
 
@@ -332,15 +1129,36 @@ export function useMatchStore() {
 
   return {
     matches: matchStore.getMatches(),
+    isHydrated: matchStore.isHydrated(),
     pendingMatches: matchStore.getMatchesByStatus('pending'),
     confirmedMatches: matchStore.getMatchesByStatus('confirmed'),
     disputedMatches: matchStore.getMatchesByStatus('disputed'),
     expiredMatches: matchStore.getMatchesByStatus('expired'),
+    escalatedMatches: matchStore.getEscalatedMatches(),
+    openDisputes: matchStore.getOpenDisputes(),
+    conflictedMatches: matchStore.getConflicts(),
+    voidedMatches: matchStore.getMatchesByStatus('voided'),
+    reviewQueue: matchStore.getReviewQueue(),
+    isReviewer: matchStore.isReviewer(),
     pendingConfirmationCount: matchStore.getPendingConfirmationCount(),
+    contestQuota: matchStore.getContestQuota(),
+    trustScore: matchStore.getTrustScore(),
     createMatch: matchStore.createMatch.bind(matchStore),
     confirmMatch: matchStore.confirmMatch.bind(matchStore),
+    amendMatch: matchStore.amendMatch.bind(matchStore),
     disputeMatch: matchStore.disputeMatch.bind(matchStore),
+    addDisputeEvidence: matchStore.addDisputeEvidence.bind(matchStore),
+    proposeCorrection: matchStore.proposeCorrection.bind(matchStore),
+    confirmCorrection: matchStore.confirmCorrection.bind(matchStore),
+    resolveDispute: matchStore.resolveDispute.bind(matchStore),
+    canReview: matchStore.canReview.bind(matchStore),
+    approveReview: matchStore.approveReview.bind(matchStore),
+    rejectReview: matchStore.rejectReview.bind(matchStore),
     checkExpiredMatches: matchStore.checkExpiredMatches.bind(matchStore),
+    resolveEscalation: matchStore.resolveEscalation.bind(matchStore),
+    resolveConflict: matchStore.resolveConflict.bind(matchStore),
+    projectRatingChanges: matchStore.projectRatingChanges.bind(matchStore),
+    recomputeRatings: matchStore.recomputeRatings.bind(matchStore),
     seedMockMatches: matchStore.seedMockMatches.bind(matchStore),
   };
 }
@@ -0,0 +1,297 @@
+// Outbox Store - Match writes queued on the device until the server accepts them
+import { useState, useEffect } from 'react';
+import NetInfo from '@react-native-community/netinfo';
+import { API, FEATURES } from '../constants';
+import { matchService, ERROR_CODES } from '../services';
+import type { ApiError, CreateMatchRequest, DisputeMatchRequest } from '../services';
+import { loadPersisted, PersistConfig, savePersisted } from './persistence';
+
+export type OutboxOperation =
+  | { type: 'create_match'; request: CreateMatchRequest }
+  | { type: 'amend_match'; games: CreateMatchRequest['games'] }
+  | { type: 'confirm_match' }
+  | { type: 'dispute_match'; request: DisputeMatchRequest }
+  | { type: 'add_dispute_evidence'; photoUri: string };
+
+export type OutboxEntry = OutboxOperation & {
+  // Doubles as the idempotency key sent with every attempt
+  id: string;
+  matchId: string;
+  queuedAt: number;
+  attempts: number;
+  lastError?: string;
+  // Set when the server rejected the write; it stays here until retried
+  failedAt?: number;
+};
+
+// Per-match sync state shown in the UI
+export type MatchSyncState = 'local' | 'syncing' | 'synced' | 'failed';
+
+interface PersistedOutbox {
+  entries: OutboxEntry[];
+}
+
+const OUTBOX_PERSIST_CONFIG: PersistConfig<PersistedOutbox> = {
+  key: 'paddle:outbox',
+  version: 2,
+  migrations: {
+    // v2: disputes send their notes and photos, not just the reason
+    1: (data) => {
+      const { entries } = data as { entries: Record<string, unknown>[] };
+      return {
+        entries: entries.map(e =>
+          e.type === 'dispute_match' && !('request' in e)
+            ? { ...e, request: { reason: e.reason, photoUris: [] } }
+            : e
+        ),
+      };
+    },
+  },
+  validate: (data): data is PersistedOutbox =>
+    typeof data === 'object' &&
+    data !== null &&
+    Array.isArray((data as PersistedOutbox).entries) &&
+    (data as PersistedOutbox).entries.every(
+      e => typeof e?.id === 'string' && typeof e.matchId === 'string' && typeof e.type === 'string'
+    ),
+};
+
+// Errors worth retrying; anything else means the server rejected the request outright
+const RETRYABLE_ERRORS: string[] = [ERROR_CODES.NETWORK_ERROR, ERROR_CODES.TIMEOUT, ERROR_CODES.SERVER_ERROR];
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function isApiError(error: unknown): error is ApiError {
+  return typeof error === 'object' && error !== null && 'code' in error && 'message' in error;
+}
+
+function send(entry: OutboxEntry): Promise<unknown> {
+  switch (entry.type) {
+    case 'create_match':
+      return matchService.createMatch(entry.request, entry.id);
+    case 'amend_match':
+      return matchService.amendMatch(entry.matchId, entry.games, entry.id);
+    case 'confirm_match':
+      return matchService.confirmMatch(entry.matchId, entry.id);
+    case 'dispute_match':
+      return matchService.disputeMatch(entry.matchId, entry.request, entry.id);
+    case 'add_dispute_evidence':
+      return matchService.addDisputeEvidence(entry.matchId, entry.photoUri, entry.id);
+  }
+}
+
+type SendResult = 'sent' | 'rejected' | 'unreachable';
+
+type Listener = () => void;
+
+class OutboxStore {
+  // Oldest first; sent strictly in order so a confirmation never overtakes its match
+  private entries: OutboxEntry[] = [];
+  private listeners: Set<Listener> = new Set();
+  private syncingId: string | null = null;
+  private flushing: Promise<void> | null = null;
+  private hydrated = false;
+  private hydration: Promise<void> | null = null;
+  private saveQueue: Promise<void> = Promise.resolve();
+
+  // Subscribe to changes
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notify() {
+    this.persist();
+    this.listeners.forEach(listener => listener());
+  }
+
+  // Load queued operations left over from the last launch (once)
+  hydrate(): Promise<void> {
+    if (!this.hydration) {
+      this.hydration = this.loadFromStorage().finally(() => {
+        this.hydrated = true;
+        this.notify();
+      });
+    }
+    return this.hydration;
+  }
+
+  private async loadFromStorage(): Promise<void> {
+    if (!FEATURES.ENABLE_OFFLINE) return;
+
+    try {
+      const result = await loadPersisted(OUTBOX_PERSIST_CONFIG);
+      if (result.status !== 'loaded') return;
+
+      const queuedIds = new Set(this.entries.map(e => e.id));
+      this.entries = [...result.data.entries.filter(e => !queuedIds.has(e.id)), ...this.entries];
+    } catch (error) {
+      console.warn('[Outbox] Failed to load queued operations:', error);
+    }
+  }
+
+  private persist(): void {
+    if (!FEATURES.ENABLE_OFFLINE || !this.hydrated) return;
+
+    const snapshot: PersistedOutbox = { entries: this.entries };
+    this.saveQueue = this.saveQueue
+      .then(() => savePersisted(OUTBOX_PERSIST_CONFIG, snapshot))
+      .catch(error => console.warn('[Outbox] Failed to save queued operations:', error));
+  }
+
+  // Start sending: flush now and again whenever the connection comes back.
+  // Returns a function that stops listening.
+  start(): () => void {
+    this.flush();
+    return NetInfo.addEventListener(state => {
+      if (state.isConnected && state.isInternetReachable !== false) {
+        this.flush();
+      }
+    });
+  }
+
+  // Queue an operation and try to send it right away
+  enqueue(matchId: string, operation: OutboxOperation): OutboxEntry {
+    const now = Date.now();
+    const entry: OutboxEntry = {
+      ...operation,
+      id: `${operation.type}-${matchId}-${now}-${Math.random().toString(36).substr(2, 9)}`,
+      matchId,
+      queuedAt: now,
+      attempts: 0,
+    };
+
+    this.entries.push(entry);
+    this.notify();
+    this.flush();
+    return entry;
+  }
+
+  // Send queued operations in order until the queue is empty or one still fails after retrying.
+  // Writes the server rejected are kept (marked failed) and hold back later writes for the
+  // same match, but no longer block other matches.
+  flush(): Promise<void> {
+    if (!this.hydrated) return this.hydrate().then(() => this.flush());
+    if (!this.flushing) {
+      this.flushing = this.drain().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  private async drain(): Promise<void> {
+    let entry = this.nextSendable();
+    while (entry) {
+      const result = await this.sendWithRetry(entry);
+      if (result === 'unreachable') return; // Leave it (and everything after it) for the next flush
+      if (result === 'sent') {
+        this.entries = this.entries.filter(e => e.id !== entry!.id);
+      } else {
+        entry.failedAt = Date.now();
+      }
+      this.notify();
+      entry = this.nextSendable();
+    }
+  }
+
+  // Oldest entry that can go out: not failed itself and not queued behind a failed write for its match
+  private nextSendable(): OutboxEntry | undefined {
+    const heldMatchIds = new Set<string>();
+    for (const entry of this.entries) {
+      if (entry.failedAt) {
+        heldMatchIds.add(entry.matchId);
+      } else if (!heldMatchIds.has(entry.matchId)) {
+        return entry;
+      }
+    }
+    return undefined;
+  }
+
+  // Try an operation up to API.RETRY_ATTEMPTS times with exponential backoff
+  private async sendWithRetry(entry: OutboxEntry): Promise<SendResult> {
+    this.syncingId = entry.id;
+    this.notify();
+
+    try {
+      for (let attempt = 1; attempt <= API.RETRY_ATTEMPTS; attempt++) {
+        try {
+          await send(entry);
+          return 'sent';
+        } catch (error) {
+          entry.attempts += 1;
+          entry.lastError = isApiError(error) ? error.message : String(error);
+
+          // Retrying won't help when the server refused the request outright
+          if (isApiError(error) && !RETRYABLE_ERRORS.includes(error.code)) {
+            return 'rejected';
+          }
+
+          if (attempt < API.RETRY_ATTEMPTS) {
+            await wait(API.RETRY_DELAY * Math.pow(API.RETRY_BACKOFF, attempt - 1));
+          }
+        }
+      }
+      return 'unreachable';
+    } finally {
+      this.syncingId = null;
+      this.notify();
+    }
+  }
+
+  // Get queued operations, oldest first
+  getEntries(): OutboxEntry[] {
+    return [...this.entries];
+  }
+
+  // Get whether a match's changes have reached the server
+  getSyncState(matchId: string): MatchSyncState {
+    const pending = this.entries.filter(e => e.matchId === matchId);
+    if (pending.length === 0) return 'synced';
+    if (pending.some(e => e.failedAt)) return 'failed';
+    return pending.some(e => e.id === this.syncingId) ? 'syncing' : 'local';
+  }
+
+  // Why the server rejected a match's changes (undefined if nothing failed)
+  getFailure(matchId: string): string | undefined {
+    return this.entries.find(e => e.matchId === matchId && e.failedAt)?.lastError;
+  }
+
+  // Send a match's rejected writes again, along with the writes held back behind them
+  retryFailed(matchId: string): void {
+    this.entries.forEach(e => {
+      if (e.matchId === matchId) e.failedAt = undefined;
+    });
+    this.notify();
+    this.flush();
+  }
+
+  // Clear the queue (for testing/logout)
+  clearOutbox(): void {
+    this.entries = [];
+    this.notify();
+  }
+}
+
+// Singleton instance
+export const outboxStore = new OutboxStore();
+
+// React hook for outbox store
+export function useOutboxStore() {
+  const [, setTick] = useState(0);
+
+  useEffect(() => {
+    const unsubscribe = outboxStore.subscribe(() => {
+      setTick(t => t + 1);
+    });
+    return unsubscribe;
+  }, []);
+
+  return {
+    entries: outboxStore.getEntries(),
+    getSyncState: outboxStore.getSyncState.bind(outboxStore),
+    getFailure: outboxStore.getFailure.bind(outboxStore),
+    retryFailed: outboxStore.retryFailed.bind(outboxStore),
+    flush: outboxStore.flush.bind(outboxStore),
+  };
+}
@@ -0,0 +1,98 @@
+// Persistence - Versioned device storage for stores
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// What actually gets written to storage
+interface PersistedEnvelope {
+  version: number;
+  savedAt: number;
+  data: unknown;
+}
+
+// Upgrades data from one schema version to the next
+export type Migration = (data: unknown) => unknown;
+
+export interface PersistConfig<T> {
+  key: string;
+  // Current schema version
+  version: number;
+  // migrations[n] upgrades version n data to version n + 1
+  migrations: Record<number, Migration>;
+  // Shape check run after migrating; anything that fails is quarantined
+  validate: (data: unknown) => data is T;
+}
+
+export type LoadResult<T> =
+  | { status: 'empty' }
+  | { status: 'loaded'; data: T; migratedFrom?: number }
+  | { status: 'quarantined'; reason: string };
+
+const QUARANTINE_SEPARATOR = ':quarantine:';
+
+function isEnvelope(value: unknown): value is PersistedEnvelope {
+  if (typeof value !== 'object' || value === null) return false;
+  const envelope = value as Partial<PersistedEnvelope>;
+  return Number.isInteger(envelope.version) && 'data' in envelope;
+}
+
+// Move unreadable data aside so it can be inspected later, and clear the live key
+async function quarantine(key: string, raw: string, reason: string): Promise<void> {
+  console.warn(`[Persistence] Quarantining ${key}: ${reason}`);
+  try {
+    await AsyncStorage.setItem(
+      `${key}${QUARANTINE_SEPARATOR}${Date.now()}`,
+      JSON.stringify({ reason, raw })
+    );
+  } finally {
+    await AsyncStorage.removeItem(key);
+  }
+}
+
+// Load, migrate and validate stored data. Never throws for bad data.
+export async function loadPersisted<T>(config: PersistConfig<T>): Promise<LoadResult<T>> {
+  const raw = await AsyncStorage.getItem(config.key);
+  if (raw === null) return { status: 'empty' };
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    parsed = undefined;
+  }
+
+  const fail = async (reason: string): Promise<LoadResult<T>> => {
+    await quarantine(config.key, raw, reason);
+    return { status: 'quarantined', reason };
+  };
+
+  if (!isEnvelope(parsed)) return fail('unreadable data');
+  if (parsed.version > config.version) return fail(`unknown version ${parsed.version}`);
+
+  let data = parsed.data;
+  for (let version = parsed.version; version < config.version; version++) {
+    const migrate = config.migrations[version];
+    if (!migrate) return fail(`no migration from version ${version}`);
+    try {
+      data = migrate(data);
+    } catch (error) {
+      return fail(`migration from version ${version} failed: ${String(error)}`);
+    }
+  }
+
+  if (!config.validate(data)) return fail(`invalid data for version ${config.version}`);
+
+  return parsed.version < config.version
+    ? { status: 'loaded', data, migratedFrom: parsed.version }
+    : { status: 'loaded', data };
+}
+
+// Write data under the current schema version
+export async function savePersisted<T>(config: PersistConfig<T>, data: T): Promise<void> {
+  const envelope: PersistedEnvelope = { version: config.version, savedAt: Date.now(), data };
+  await AsyncStorage.setItem(config.key, JSON.stringify(envelope));
+}
+
+// Keys holding quarantined copies of a store's data
+export async function getQuarantinedKeys(key: string): Promise<string[]> {
+  const keys = await AsyncStorage.getAllKeys();
+  return keys.filter(k => k.startsWith(`${key}${QUARANTINE_SEPARATOR}`));
+}
@@ -0,0 +1,267 @@
+// Rating History Store - One entry per player per confirmed match
+// TODO: Replace with backend API calls when ready
+import { useState, useEffect } from 'react';
+import type { GameMode } from '../types';
+import { FEATURES } from '../constants';
+import { currentUser } from '../data';
+import { loadPersisted, PersistConfig, savePersisted } from './persistence';
+
+export interface RatingHistoryEntry {
+  matchId: string;
+  playerId: string;
+  mode: GameMode;
+  courtId: string;
+  courtName: string;
+  ratingBefore: number;
+  ratingAfter: number;
+  delta: number;
+  won: boolean;
+  timestamp: number;
+}
+
+export type RatingHistoryRange = '30d' | '90d' | 'all';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RANGE_DAYS: Record<RatingHistoryRange, number | null> = {
+  '30d': 30,
+  '90d': 90,
+  all: null,
+};
+
+// Shape of the rating history on device
+interface PersistedRatingHistory {
+  entries: RatingHistoryEntry[];
+}
+
+function isPersistedEntry(value: unknown): value is RatingHistoryEntry {
+  if (typeof value !== 'object' || value === null) return false;
+  const e = value as Partial<RatingHistoryEntry>;
+  return (
+    typeof e.matchId === 'string' &&
+    typeof e.playerId === 'string' &&
+    (e.mode === 'singles' || e.mode === 'doubles') &&
+    typeof e.ratingBefore === 'number' &&
+    typeof e.ratingAfter === 'number' &&
+    typeof e.timestamp === 'number'
+  );
+}
+
+// Bump version and add a migration from the old version whenever the stored shape changes
+const RATING_HISTORY_PERSIST_CONFIG: PersistConfig<PersistedRatingHistory> = {
+  key: 'paddle:rating-history',
+  version: 1,
+  migrations: {},
+  validate: (data): data is PersistedRatingHistory =>
+    typeof data === 'object' &&
+    data !== null &&
+    Array.isArray((data as PersistedRatingHistory).entries) &&
+    (data as PersistedRatingHistory).entries.every(isPersistedEntry),
+};
+
+type Listener = () => void;
+
+class RatingHistoryStore {
+  // Entries per player, oldest first
+  private history: Map<string, RatingHistoryEntry[]> = new Map();
+  private listeners: Set<Listener> = new Set();
+  private hydrated = false;
+  private hydration: Promise<void> | null = null;
+  // Writes run one at a time so an older snapshot never lands after a newer one
+  private saveQueue: Promise<void> = Promise.resolve();
+
+  // Subscribe to changes
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notify() {
+    this.persist();
+    this.listeners.forEach(listener => listener());
+  }
+
+  // Load stored history (once). With the mock API the current user gets a
+  // made-up history to chart if nothing was stored.
+  hydrate(): Promise<void> {
+    if (!this.hydration) {
+      this.hydration = this.loadFromStorage().finally(() => {
+        if (FEATURES.USE_MOCK_API) {
+          this.seedMockHistory(currentUser.id, {
+            singles: currentUser.ratings.singles.elo,
+            doubles: currentUser.ratings.doubles.elo,
+          });
+        }
+        this.hydrated = true;
+        this.notify();
+      });
+    }
+    return this.hydration;
+  }
+
+  // Whether stored history has been loaded
+  isHydrated(): boolean {
+    return this.hydrated;
+  }
+
+  private async loadFromStorage(): Promise<void> {
+    if (!FEATURES.ENABLE_OFFLINE) return;
+
+    try {
+      const result = await loadPersisted(RATING_HISTORY_PERSIST_CONFIG);
+      if (result.status !== 'loaded') return;
+
+      // Matches already recorded while loading are skipped
+      this.addEntries(result.data.entries);
+    } catch (error) {
+      console.warn('[RatingHistoryStore] Failed to load stored history:', error);
+    }
+  }
+
+  private persist(): void {
+    if (!FEATURES.ENABLE_OFFLINE || !this.hydrated) return;
+
+    const snapshot: PersistedRatingHistory = { entries: [...this.history.values()].flat() };
+    this.saveQueue = this.saveQueue
+      .then(() => savePersisted(RATING_HISTORY_PERSIST_CONFIG, snapshot))
+      .catch(error => console.warn('[RatingHistoryStore] Failed to save history:', error));
+  }
+
+  // Get every player's entry for one match
+  getMatchEntries(matchId: string): RatingHistoryEntry[] {
+    return [...this.history.values()].flat().filter(e => e.matchId === matchId);
+  }
+
+  // Get a player's full history for one mode, oldest first
+  getHistory(playerId: string, mode: GameMode): RatingHistoryEntry[] {
+    return (this.history.get(playerId) ?? []).filter(e => e.mode === mode);
+  }
+
+  // Get a player's history for one mode within a time range
+  getHistoryInRange(playerId: string, mode: GameMode, range: RatingHistoryRange, now: number = Date.now()): RatingHistoryEntry[] {
+    const days = RANGE_DAYS[range];
+    const entries = this.getHistory(playerId, mode);
+    if (days === null) return entries;
+    const since = now - days * DAY_MS;
+    return entries.filter(e => e.timestamp >= since);
+  }
+
+  // Append entries for one confirmed match (ignores entries already recorded)
+  appendEntries(entries: RatingHistoryEntry[]): void {
+    if (this.addEntries(entries)) this.notify();
+  }
+
+  // Add entries without notifying; returns whether anything was new
+  private addEntries(entries: RatingHistoryEntry[]): boolean {
+    let added = false;
+
+    entries.forEach(entry => {
+      const existing = this.history.get(entry.playerId) ?? [];
+      if (existing.some(e => e.matchId === entry.matchId)) return;
+
+      const next = [...existing, entry].sort((a, b) => a.timestamp - b.timestamp);
+      this.history.set(entry.playerId, next);
+      added = true;
+    });
+
+    return added;
+  }
+
+  // Replace all history (after a full-history recompute)
+  replaceHistory(entries: RatingHistoryEntry[]): void {
+    this.history.clear();
+    this.appendEntries(entries);
+    this.notify();
+  }
+
+  // Drop one match's entries (its result was taken back out of ratings)
+  removeMatch(matchId: string): void {
+    let removed = false;
+    this.history.forEach((entries, playerId) => {
+      const kept = entries.filter(e => e.matchId !== matchId);
+      if (kept.length === entries.length) return;
+      this.history.set(playerId, kept);
+      removed = true;
+    });
+    if (removed) this.notify();
+  }
+
+  // Clear all history (for testing/logout)
+  clearHistory(): void {
+    this.history.clear();
+    this.notify();
+  }
+
+  // Seed mock history for testing, ending at the given ratings
+  private seedMockHistory(playerId: string, currentRatings: Record<GameMode, number>): void {
+    if (this.history.has(playerId)) return; // Don't seed if already have history
+
+    const now = Date.now();
+    const mockDeltas: Record<GameMode, { daysAgo: number; delta: number }[]> = {
+      singles: [
+        { daysAgo: 140, delta: 14 },
+        { daysAgo: 118, delta: -11 },
+        { daysAgo: 96, delta: 16 },
+        { daysAgo: 71, delta: 12 },
+        { daysAgo: 52, delta: -15 },
+        { daysAgo: 33, delta: 18 },
+        { daysAgo: 21, delta: 13 },
+        { daysAgo: 9, delta: -12 },
+        { daysAgo: 3, delta: 17 },
+      ],
+      doubles: [
+        { daysAgo: 125, delta: -9 },
+        { daysAgo: 88, delta: 15 },
+        { daysAgo: 61, delta: 11 },
+        { daysAgo: 40, delta: -14 },
+        { daysAgo: 26, delta: 16 },
+        { daysAgo: 12, delta: 10 },
+        { daysAgo: 5, delta: 14 },
+      ],
+    };
+
+    const entries: RatingHistoryEntry[] = [];
+    (Object.keys(mockDeltas) as GameMode[]).forEach(mode => {
+      const deltas = mockDeltas[mode];
+      // Walk backwards from the current rating so the last entry lands on it
+      let rating = currentRatings[mode] - deltas.reduce((sum, d) => sum + d.delta, 0);
+      deltas.forEach(({ daysAgo, delta }, i) => {
+        entries.push({
+          matchId: `mock-history-${mode}-${i + 1}`,
+          playerId,
+          mode,
+          courtId: i % 2 === 0 ? 'lincoln-park' : 'riverside',
+          courtName: i % 2 === 0 ? 'Lincoln Park' : 'Riverside Courts',
+          ratingBefore: rating,
+          ratingAfter: rating + delta,
+          delta,
+          won: delta > 0,
+          timestamp: now - daysAgo * DAY_MS,
+        });
+        rating += delta;
+      });
+    });
+
+    this.addEntries(entries);
+  }
+}
+
+// Singleton instance
+export const ratingHistoryStore = new RatingHistoryStore();
+
+// React hook for rating history store
+export function useRatingHistoryStore() {
+  const [, setTick] = useState(0);
+
+  useEffect(() => {
+    const unsubscribe = ratingHistoryStore.subscribe(() => {
+      setTick(t => t + 1);
+    });
+    return unsubscribe;
+  }, []);
+
+  return {
+    getHistory: ratingHistoryStore.getHistory.bind(ratingHistoryStore),
+    getHistoryInRange: ratingHistoryStore.getHistoryInRange.bind(ratingHistoryStore),
+  };
+}
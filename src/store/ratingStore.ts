@@ -0,0 +1,261 @@
+// Rating Store - Current rating per player, updated when matches are confirmed
+// TODO: Replace with backend API calls when ready
+import { useState, useEffect } from 'react';
+import type { GameMode, ModeRating, PlayerRatings } from '../types';
+import { FEATURES } from '../constants';
+import { createModeRating } from '../utils/rating';
+import { applyInactivityPolicy, recordModeResult } from '../utils/inactivity';
+import { loadPersisted, PersistConfig, savePersisted } from './persistence';
+
+export interface RatingChangeEvent {
+  matchId: string;
+  playerId: string;
+  mode: GameMode;
+  ratingBefore: number;
+  ratingAfter: number;
+  delta: number;
+  won: boolean;
+  timestamp: number;
+  // Glicko-2 uncertainty after the match (unset under ELO)
+  deviationAfter?: number;
+  volatilityAfter?: number;
+}
+
+// Shape of the rating store on device
+interface PersistedRatings {
+  ratings: Record<string, PlayerRatings>;
+  latestChanges: Record<string, RatingChangeEvent>;
+}
+
+function isPersistedModeRating(value: unknown): value is ModeRating {
+  if (typeof value !== 'object' || value === null) return false;
+  const r = value as Partial<ModeRating>;
+  return typeof r.elo === 'number' && typeof r.gamesPlayed === 'number' && typeof r.wins === 'number';
+}
+
+function isPersistedPlayerRatings(value: unknown): value is PlayerRatings {
+  if (typeof value !== 'object' || value === null) return false;
+  const r = value as Partial<PlayerRatings>;
+  return isPersistedModeRating(r.singles) && isPersistedModeRating(r.doubles);
+}
+
+// Bump version and add a migration from the old version whenever the stored shape changes
+const RATING_PERSIST_CONFIG: PersistConfig<PersistedRatings> = {
+  key: 'paddle:ratings',
+  version: 1,
+  migrations: {},
+  validate: (data): data is PersistedRatings =>
+    typeof data === 'object' &&
+    data !== null &&
+    typeof (data as PersistedRatings).ratings === 'object' &&
+    (data as PersistedRatings).ratings !== null &&
+    Object.values((data as PersistedRatings).ratings).every(isPersistedPlayerRatings) &&
+    typeof (data as PersistedRatings).latestChanges === 'object' &&
+    (data as PersistedRatings).latestChanges !== null,
+};
+
+type Listener = () => void;
+type RatingChangeListener = (changes: RatingChangeEvent[]) => void;
+
+class RatingStore {
+  // Singles and doubles are tracked independently per player
+  private ratings: Map<string, PlayerRatings> = new Map();
+  private latestChanges: Map<string, RatingChangeEvent> = new Map();
+  private listeners: Set<Listener> = new Set();
+  private changeListeners: Set<RatingChangeListener> = new Set();
+  private hydrated = false;
+  private hydration: Promise<void> | null = null;
+  // Writes run one at a time so an older snapshot never lands after a newer one
+  private saveQueue: Promise<void> = Promise.resolve();
+
+  // Subscribe to any change
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // Subscribe to rating-changed events (one batch per confirmed match)
+  onRatingChanged(listener: RatingChangeListener): () => void {
+    this.changeListeners.add(listener);
+    return () => this.changeListeners.delete(listener);
+  }
+
+  private notify() {
+    this.persist();
+    this.listeners.forEach(listener => listener());
+  }
+
+  // Load stored ratings (once). They were produced by the stored matches, so they
+  // have to come back with them.
+  hydrate(): Promise<void> {
+    if (!this.hydration) {
+      this.hydration = this.loadFromStorage().finally(() => {
+        this.hydrated = true;
+        this.notify();
+      });
+    }
+    return this.hydration;
+  }
+
+  // Whether stored ratings have been loaded
+  isHydrated(): boolean {
+    return this.hydrated;
+  }
+
+  private async loadFromStorage(): Promise<void> {
+    if (!FEATURES.ENABLE_OFFLINE) return;
+
+    try {
+      const result = await loadPersisted(RATING_PERSIST_CONFIG);
+      if (result.status !== 'loaded') return;
+
+      // Anything rated while loading stays on top of the stored ratings
+      this.ratings = new Map([...Object.entries(result.data.ratings), ...this.ratings]);
+      this.latestChanges = new Map([...Object.entries(result.data.latestChanges), ...this.latestChanges]);
+    } catch (error) {
+      console.warn('[RatingStore] Failed to load stored ratings:', error);
+    }
+  }
+
+  private persist(): void {
+    if (!FEATURES.ENABLE_OFFLINE || !this.hydrated) return;
+
+    const snapshot: PersistedRatings = {
+      ratings: Object.fromEntries(this.ratings),
+      latestChanges: Object.fromEntries(this.latestChanges),
+    };
+    this.saveQueue = this.saveQueue
+      .then(() => savePersisted(RATING_PERSIST_CONFIG, snapshot))
+      .catch(error => console.warn('[RatingStore] Failed to save ratings:', error));
+  }
+
+  // Get a player's stored rating for one mode (undefined if never rated)
+  getRating(playerId: string, mode: GameMode): ModeRating | undefined {
+    return this.ratings.get(playerId)?.[mode];
+  }
+
+  // Get both of a player's stored ratings
+  getRatings(playerId: string): PlayerRatings | undefined {
+    return this.ratings.get(playerId);
+  }
+
+  // Get the most recent rating change for a player
+  getLatestChange(playerId: string): RatingChangeEvent | undefined {
+    return this.latestChanges.get(playerId);
+  }
+
+  // Set a player's ratings directly
+  setRatings(playerId: string, ratings: PlayerRatings): void {
+    this.ratings.set(playerId, ratings);
+    this.notify();
+  }
+
+  // Seed ratings from the API without overwriting locally applied results
+  seedRatings(playerId: string, ratings: PlayerRatings): void {
+    if (this.ratings.has(playerId)) return;
+    this.setRatings(playerId, ratings);
+  }
+
+  // Apply the inactivity policy to a player's ratings (decay and/or returning flag)
+  checkInactivity(playerId: string, now: number = Date.now()): void {
+    const ratings = this.ratings.get(playerId);
+    if (!ratings) return;
+
+    const singles = applyInactivityPolicy(ratings.singles, now);
+    const doubles = applyInactivityPolicy(ratings.doubles, now);
+    if (singles === ratings.singles && doubles === ratings.doubles) return;
+
+    this.ratings.set(playerId, { singles, doubles });
+    this.notify();
+  }
+
+  // Replace every stored rating (after a full-history recompute)
+  replaceRatings(ratings: Record<string, PlayerRatings>): void {
+    this.ratings = new Map(Object.entries(ratings));
+    this.latestChanges.clear();
+    this.notify();
+  }
+
+  // Apply every player's change from one match and emit a rating-changed event
+  applyChanges(changes: RatingChangeEvent[]): void {
+    if (changes.length === 0) return;
+
+    changes.forEach(change => {
+      // A first result only says where the player stood in the mode played;
+      // the other mode starts from the default
+      const ratings = this.ratings.get(change.playerId) ?? {
+        singles: createModeRating(),
+        doubles: createModeRating(),
+        [change.mode]: createModeRating(change.ratingBefore),
+      };
+      this.ratings.set(change.playerId, {
+        ...ratings,
+        [change.mode]: recordModeResult(ratings[change.mode], change.ratingAfter, change.won, change.timestamp, {
+          deviation: change.deviationAfter,
+          volatility: change.volatilityAfter,
+        }),
+      });
+      this.latestChanges.set(change.playerId, change);
+    });
+
+    this.changeListeners.forEach(listener => listener(changes));
+    this.notify();
+  }
+
+  // Undo one match's changes: its delta comes off and the game leaves each record.
+  // Glicko-2 uncertainty can't be unwound and is left as it is.
+  reverseChanges(changes: Pick<RatingChangeEvent, 'matchId' | 'playerId' | 'mode' | 'delta' | 'won'>[]): void {
+    if (changes.length === 0) return;
+
+    changes.forEach(change => {
+      const ratings = this.ratings.get(change.playerId);
+      if (!ratings) return;
+      const rating = ratings[change.mode];
+      this.ratings.set(change.playerId, {
+        ...ratings,
+        [change.mode]: {
+          ...rating,
+          elo: rating.elo - change.delta,
+          gamesPlayed: Math.max(0, rating.gamesPlayed - 1),
+          wins: Math.max(0, rating.wins - (change.won ? 1 : 0)),
+        },
+      });
+      if (this.latestChanges.get(change.playerId)?.matchId === change.matchId) {
+        this.latestChanges.delete(change.playerId);
+      }
+    });
+
+    this.notify();
+  }
+
+  // Clear all ratings (for testing/logout)
+  clearRatings(): void {
+    this.ratings.clear();
+    this.latestChanges.clear();
+    this.notify();
+  }
+}
+
+// Singleton instance
+export const ratingStore = new RatingStore();
+
+// React hook for rating store
+export function useRatingStore() {
+  const [, setTick] = useState(0);
+
+  useEffect(() => {
+    const unsubscribe = ratingStore.subscribe(() => {
+      setTick(t => t + 1);
+    });
+    return unsubscribe;
+  }, []);
+
+  return {
+    getRating: ratingStore.getRating.bind(ratingStore),
+    getRatings: ratingStore.getRatings.bind(ratingStore),
+    seedRatings: ratingStore.seedRatings.bind(ratingStore),
+    checkInactivity: ratingStore.checkInactivity.bind(ratingStore),
+    getLatestChange: ratingStore.getLatestChange.bind(ratingStore),
+    onRatingChanged: ratingStore.onRatingChanged.bind(ratingStore),
+  };
+}
@@ -1,40 +1,195 @@
 // Session Store - Manages doubles sessions with team swapping
 import { useState, useEffect } from 'react';
-import { Player, DoublesSession, TeamComboRecord, SessionGameRecord, createTeamComboId } from '../types';
+import { Player, DoublesSession, TeamComboRecord, SessionGameRecord, SessionSummary, createTeamComboId } from '../types';
+import { FEATURES, SESSIONS } from '../constants';
+import { scheduleNextGame, summarizeSession } from '../utils';
+import { loadPersisted, PersistConfig, savePersisted } from './persistence';
+
+interface PersistedSession {
+  session: DoublesSession | null;
+}
+
+function isPersistedSession(value: unknown): value is DoublesSession {
+  if (typeof value !== 'object' || value === null) return false;
+  const s = value as Partial<DoublesSession>;
+  return (
+    typeof s.id === 'string' &&
+    typeof s.startedAt === 'number' &&
+    Array.isArray(s.players) &&
+    Array.isArray(s.teamA) &&
+    Array.isArray(s.teamB) &&
+    Array.isArray(s.sittingOut) &&
+    Array.isArray(s.games) &&
+    Array.isArray(s.comboRecords)
+  );
+}
+
+const SESSION_PERSIST_CONFIG: PersistConfig<PersistedSession> = {
+  key: 'paddle:session',
+  version: 2,
+  migrations: {
+    // v2: rotating sessions track who is sitting out
+    1: (data) => {
+      const { session } = data as { session: Record<string, unknown> | null };
+      return { session: session ? { ...session, sittingOut: [] } : null };
+    },
+  },
+  validate: (data): data is PersistedSession =>
+    typeof data === 'object' &&
+    data !== null &&
+    'session' in data &&
+    ((data as PersistedSession).session === null || isPersistedSession((data as PersistedSession).session)),
+};
 
 type Listener = () => void;
 
 class SessionStore {
   private currentSession: DoublesSession | null = null;
+  // Session restored from storage, waiting for the user to resume or end it
+  private resumableSession: DoublesSession | null = null;
+  // Wrap-up of a session that was closed for being idle, until dismissed
+  private closedSummary: SessionSummary | null = null;
   private listeners: Set<Listener> = new Set();
+  private hydrated = false;
+  private hydration: Promise<void> | null = null;
+  private saveQueue: Promise<void> = Promise.resolve();
 
   subscribe(listener: Listener): () => void {
     this.listeners.add(listener);
     return () => this.listeners.delete(listener);
   }
 
+  // Every change is saved, so a killed app can pick the session back up
   private notify() {
+    if (this.currentSession) {
+      this.currentSession.lastActiveAt = Date.now();
+    }
+    this.persist();
     this.listeners.forEach(listener => listener());
   }
 
+  // Load the session left over from the last launch (once)
+  hydrate(): Promise<void> {
+    if (!this.hydration) {
+      this.hydration = this.loadFromStorage().finally(() => {
+        this.hydrated = true;
+        this.persist();
+        this.listeners.forEach(listener => listener());
+      });
+    }
+    return this.hydration;
+  }
+
+  isHydrated(): boolean {
+    return this.hydrated;
+  }
+
+  private async loadFromStorage(): Promise<void> {
+    if (!FEATURES.ENABLE_OFFLINE) return;
+
+    try {
+      const result = await loadPersisted(SESSION_PERSIST_CONFIG);
+      if (result.status !== 'loaded' || !result.data.session) return;
+      // A session started while loading wins over the stored one
+      if (this.currentSession) return;
+
+      const session = result.data.session;
+      if (session.phase === 'completed') return;
+      if (this.isIdle(session)) {
+        this.closedSummary = summarizeSession(session, session.lastActiveAt ?? session.startedAt, 'idle');
+      } else {
+        this.resumableSession = session;
+      }
+    } catch (error) {
+      console.warn('[SessionStore] Failed to load stored session:', error);
+    }
+  }
+
+  private persist(): void {
+    if (!FEATURES.ENABLE_OFFLINE || !this.hydrated) return;
+
+    const snapshot: PersistedSession = { session: this.currentSession ?? this.resumableSession };
+    this.saveQueue = this.saveQueue
+      .then(() => savePersisted(SESSION_PERSIST_CONFIG, snapshot))
+      .catch(error => console.warn('[SessionStore] Failed to save session:', error));
+  }
+
+  private isIdle(session: DoublesSession, now: number = Date.now()): boolean {
+    const lastActiveAt = session.lastActiveAt ?? session.startedAt;
+    return now - lastActiveAt > SESSIONS.IDLE_CLOSE_MINUTES * 60 * 1000;
+  }
+
+  // Close the active or resumable session if it has sat idle too long (e.g. when the app comes back)
+  closeIfIdle(now: number = Date.now()): SessionSummary | null {
+    const session = this.currentSession ?? this.resumableSession;
+    if (!session || !this.isIdle(session, now)) return null;
+
+    session.phase = 'completed';
+    this.closedSummary = summarizeSession(session, session.lastActiveAt ?? session.startedAt, 'idle');
+    this.currentSession = null;
+    this.resumableSession = null;
+    this.notify();
+    return this.closedSummary;
+  }
+
   getCurrentSession(): DoublesSession | null {
     return this.currentSession;
   }
 
-  // Start a new doubles session with 4 players
+  // Session from the last launch that can be resumed
+  getResumableSession(): DoublesSession | null {
+    return this.resumableSession;
+  }
+
+  // Pick the restored session back up where it left off
+  resumeSession(): DoublesSession | null {
+    if (!this.resumableSession) return null;
+    this.currentSession = this.resumableSession;
+    this.resumableSession = null;
+    this.notify();
+    return this.currentSession;
+  }
+
+  // End the restored session instead of resuming it
+  discardResumableSession(): SessionSummary | null {
+    const session = this.resumableSession;
+    if (!session) return null;
+    session.phase = 'completed';
+    this.resumableSession = null;
+    this.notify();
+    return summarizeSession(session, Date.now(), 'ended');
+  }
+
+  // Summary of the session closed for being idle (null once dismissed)
+  getClosedSummary(): SessionSummary | null {
+    return this.closedSummary;
+  }
+
+  dismissClosedSummary(): void {
+    this.closedSummary = null;
+    this.notify();
+  }
+
+  // Start a new doubles session with 4 to 8 players (extras rotate in from the bench)
   startSession(params: {
     courtId: string;
     courtName: string;
     players: Player[];
   }): DoublesSession {
-    if (params.players.length !== 4) {
-      throw new Error('Doubles session requires exactly 4 players');
+    const count = params.players.length;
+    if (count < SESSIONS.MIN_PLAYERS || count > SESSIONS.MAX_PLAYERS) {
+      throw new Error(`Doubles session requires ${SESSIONS.MIN_PLAYERS} to ${SESSIONS.MAX_PLAYERS} players`);
     }
 
     const playerIds = params.players.map(p => p.id);
+    if (new Set(playerIds).size !== count) {
+      throw new Error('Doubles session players must be distinct');
+    }
 
-    // Initialize all 6 possible team combinations for tracking
+    // Initialize every possible team combination for tracking
     const comboRecords = this.initializeComboRecords(playerIds);
+    // First four players in order: first 2 vs last 2, the rest sit out
+    const lineup = scheduleNextGame(playerIds, []);
 
     const session: DoublesSession = {
       id: `session-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
@@ -42,20 +197,22 @@ class SessionStore {
       courtName: params.courtName,
       startedAt: Date.now(),
       players: params.players,
-      // Default arrangement: first 2 vs last 2
-      teamA: [playerIds[0], playerIds[1]],
-      teamB: [playerIds[2], playerIds[3]],
+      teamA: lineup.teamA,
+      teamB: lineup.teamB,
+      sittingOut: lineup.sittingOut,
       phase: 'ready', // Start in ready - user sees Match Ready first, Swap triggers arranging
       games: [],
       comboRecords,
     };
 
+    // Starting over replaces any session left from the last launch
+    this.resumableSession = null;
     this.currentSession = session;
     this.notify();
     return session;
   }
 
-  // Initialize all 6 possible team combos (C(4,2) = 6)
+  // Initialize every possible team combo (C(n,2): 6 for 4 players, up to 28 for 8)
   private initializeComboRecords(playerIds: string[]): TeamComboRecord[] {
     const combos: TeamComboRecord[] = [];
     for (let i = 0; i < playerIds.length; i++) {
@@ -72,13 +229,18 @@ class SessionStore {
     return combos;
   }
 
-  // Update team arrangement (swap players between teams)
+  // Update team arrangement (swap players between teams, or in from the bench)
   updateArrangement(teamA: [string, string], teamB: [string, string]): void {
     if (!this.currentSession) return;
     if (this.currentSession.phase !== 'arranging') return;
 
+    const onCourt = [...teamA, ...teamB];
+    const playerIds = this.currentSession.players.map(p => p.id);
+    if (new Set(onCourt).size !== 4 || !onCourt.every(id => playerIds.includes(id))) return;
+
     this.currentSession.teamA = teamA;
     this.currentSession.teamB = teamB;
+    this.currentSession.sittingOut = playerIds.filter(id => !onCourt.includes(id));
     this.notify();
   }
 
@@ -138,7 +300,11 @@ class SessionStore {
       return record;
     });
 
-    // Go back to arranging phase for next game
+    // Rotate in the next lineup, then go back to arranging phase for tweaks
+    const lineup = scheduleNextGame(this.currentSession.players.map(p => p.id), this.currentSession.games);
+    this.currentSession.teamA = lineup.teamA;
+    this.currentSession.teamB = lineup.teamB;
+    this.currentSession.sittingOut = lineup.sittingOut;
     this.currentSession.phase = 'arranging';
     this.notify();
   }
@@ -190,6 +356,8 @@ export function useSessionStore() {
 
   return {
     session: sessionStore.getCurrentSession(),
+    resumableSession: sessionStore.getResumableSession(),
+    closedSummary: sessionStore.getClosedSummary(),
     startSession: sessionStore.startSession.bind(sessionStore),
     updateArrangement: sessionStore.updateArrangement.bind(sessionStore),
     lockTeams: sessionStore.lockTeams.bind(sessionStore),
@@ -198,5 +366,8 @@ export function useSessionStore() {
     getCurrentComboRecords: sessionStore.getCurrentComboRecords.bind(sessionStore),
     endSession: sessionStore.endSession.bind(sessionStore),
     clearSession: sessionStore.clearSession.bind(sessionStore),
+    resumeSession: sessionStore.resumeSession.bind(sessionStore),
+    discardResumableSession: sessionStore.discardResumableSession.bind(sessionStore),
+    dismissClosedSummary: sessionStore.dismissClosedSummary.bind(sessionStore),
   };
 }
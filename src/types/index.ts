@@ -7,11 +7,17 @@ export type DerivedStatus = 'Available' | 'On Court' | 'In Queue' | 'Matching';
 // Play preference for auto-matching
 export type PlayPreference = 'Singles' | 'Doubles' | 'Either';
 
+// What a user may do beyond playing
+// reviewer: works the review queue (flagged matches) for matches they didn't play in
+export type UserRole = 'player' | 'reviewer';
+
 export interface Player {
   id: string;
   name: string;
   avatar: string;
   elo: number;
+  // Per-mode ratings; elo above is the legacy single rating
+  ratings?: PlayerRatings;
   // Legacy status for backward compatibility - will be computed
   status: 'Waiting' | 'On Court 2' | 'On Court 1' | 'Ready' | 'Available';
   // New fields for system-derived state
@@ -26,6 +32,7 @@ export interface TeamPlayer {
   name: string;
   avatar: string;
   elo?: number;
+  ratings?: PlayerRatings;
 }
 
 export interface Team {
@@ -41,11 +48,106 @@ export interface Team {
 
 export type GameMode = 'singles' | 'doubles';
 
+// How a match result moves ratings
+// win_loss: fixed-K ELO on the match winner only
+// margin_of_victory: K is weighted by games won and points won
+export type RatingModel = 'win_loss' | 'margin_of_victory';
+
+// Engine that turns results into ratings
+// elo: K-factor ELO (provisional and returning K, league rating model)
+// glicko2: Glicko-2, tracking rating deviation and volatility per mode
+export type RatingSystem = 'elo' | 'glicko2';
+
+// One mode's rating with its own record
+export interface ModeRating {
+  elo: number;
+  gamesPlayed: number;
+  wins: number;
+  // Inactivity tracking
+  lastPlayedAt?: number; // ms timestamp of the last confirmed match
+  inactiveWeeksApplied?: number; // Idle weeks already decayed since lastPlayedAt
+  returningMatchesLeft?: number; // > 0 while the player is flagged as returning
+  // Glicko-2 uncertainty, set once the rating has been through the Glicko-2 engine
+  deviation?: number;
+  volatility?: number;
+}
+
+// How idle ratings are handled
+// decay: rating drifts toward a floor, then moves faster on return
+// widen_uncertainty: rating is kept but moves much faster on return
+export type InactivityPolicy = 'decay' | 'widen_uncertainty';
+
+export type PlayerRatings = Record<GameMode, ModeRating>;
+
+// Display rating tier; applies from minRating up to the next tier
+export interface RatingTier {
+  minRating: number;
+  label: string;
+}
+
+// Linear mapping from ELO to the displayed rating. Versions only change how
+// ELO is shown; stored ELO is the same under every scale.
+export interface RatingScale {
+  version: number;
+  anchorElo: number; // ELO shown as anchorRating
+  anchorRating: number;
+  eloPerPoint: number; // ELO per 1.0 of display rating
+  minRating?: number; // Optional display clamp (legacy scales only)
+  maxRating?: number;
+  tiers: RatingTier[]; // Ascending by minRating
+}
+
+// Who has to confirm a submitted match before it counts
+// any_opponent: one player from the other team
+// all_opponents: everyone on the other team
+// all_participants: everyone in the match, including the submitter's partner
+// majority: more than half of all participants (the submitter counts)
+export type ConfirmationRule = 'any_opponent' | 'all_opponents' | 'all_participants' | 'majority';
+
+// What happens when the confirmation window closes without enough confirmations
+// expire: match is dropped; auto_confirm: match counts anyway; escalate: sent for manual review
+export type ConfirmationExpiryAction = 'expire' | 'auto_confirm' | 'escalate';
+
+export interface ConfirmationPolicy {
+  rule: ConfirmationRule;
+  onExpiry: ConfirmationExpiryAction;
+  windowHours: number; // How long participants have to confirm
+}
+
+// How points are won
+// side_out: only the serving team scores; rally: every rally scores;
+// timed: play stops at the time limit and the leader wins (or earlier if someone reaches the target)
+export type GameScoringType = 'side_out' | 'rally' | 'timed';
+
+export interface GameFormat {
+  scoring: GameScoringType;
+  target: number; // Points needed to win a game
+  winBy: number; // Required lead at the target (1 or 2)
+  cap?: number; // Hard limit: first to the cap wins regardless of lead
+  bestOf?: number; // Games in the match; omitted for open play (any number of games)
+  timeLimitMinutes?: number; // Timed games only
+  // Live-play reminders
+  switchSidesAt?: number; // Teams change ends when either team first reaches this score
+  timeoutsPerGame?: number; // Timeouts each team may call per game
+  showGameClock?: boolean; // Show elapsed time for untimed games (timed games always count down)
+}
+
+export interface League {
+  id: string;
+  name: string;
+  ratingModel: RatingModel;
+  courtIds: string[]; // Courts whose matches count toward this league
+  confirmationPolicy?: ConfirmationPolicy;
+  gameFormat?: GameFormat;
+}
+
 export interface CurrentUser {
   id: string;
   name: string;
   avatar: string;
   elo: number;
+  ratings: PlayerRatings;
+  role?: UserRole; // Defaults to player
   // User preferences
   autoMatchEnabled?: boolean;
   playPreference?: PlayPreference;
@@ -89,6 +191,8 @@ export interface Court {
   surfaceType?: 'indoor' | 'outdoor' | 'mixed';
   amenities?: string[];
   imageUrl?: string;
+  confirmationPolicy?: ConfirmationPolicy; // Overrides the league's policy for this court
+  gameFormat?: GameFormat; // Overrides the league's game format for this court
 }
 
 // Deep link invite data
@@ -120,18 +224,34 @@ export interface SessionGameRecord {
   playedAt: number;
 }
 
-// Session with 4 fixed players who can swap partners between games
+// Session with 4 to 8 players sharing a court, rotating partners and sit-outs between games
 export interface DoublesSession {
   id: string;
   courtId: string;
   courtName: string;
   startedAt: number;
-  players: Player[]; // Always 4 players
+  players: Player[]; // 4 to 8 players
   teamA: [string, string]; // Player IDs for team A
   teamB: [string, string]; // Player IDs for team B
+  sittingOut: string[]; // Player IDs sitting out this game (empty with 4 players)
   phase: 'arranging' | 'ready' | 'completed';
   games: SessionGameRecord[];
   comboRecords: TeamComboRecord[];
+  lastActiveAt?: number; // Last change to the session; used to close idle sessions
+}
+
+// Wrap-up of a finished doubles session
+export interface SessionSummary {
+  sessionId: string;
+  courtName: string;
+  startedAt: number;
+  endedAt: number;
+  closedReason: 'ended' | 'idle';
+  gamesPlayed: number;
+  // Per-player record, most wins first
+  players: { playerId: string; name: string; wins: number; losses: number }[];
+  // Pairing with the best record (undefined if no games were played)
+  bestCombo?: TeamComboRecord;
 }
 
 // Helper to create consistent team combo ID (alphabetically sorted)
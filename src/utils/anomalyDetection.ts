@@ -0,0 +1,196 @@
+import { RATING } from '../constants';
+import { GameScoreLine } from './rating';
+
+/**
+ * Kinds of suspicious match patterns
+ * closed_group: the same small group keeps playing only each other (games from one
+ *   session or sitting count as one meeting, up to a cap, so an ordinary evening of open
+ *   play isn't flagged but a pile of games logged in one sitting still is)
+ * upset_swing: a run of big upsets next to a run of losses (sandbagging)
+ * score_pattern: a player's game scores are implausibly lopsided or uniform
+ */
+export type AnomalyType = 'closed_group' | 'upset_swing' | 'score_pattern';
+
+/**
+ * One reason a match was flagged
+ */
+export interface AnomalyFlag {
+  type: AnomalyType;
+  playerIds: string[];
+  detail: string;
+}
+
+/**
+ * A match as the detector needs it (Match from the match store fits)
+ */
+export interface AnalyzableMatch {
+  id: string;
+  createdAt: number;
+  // Doubles session the match was played in, if any
+  sessionId?: string;
+  teamA: { id: string; ratingBefore?: number }[];
+  teamB: { id: string; ratingBefore?: number }[];
+  games: GameScoreLine[];
+  teamAWins: number;
+  teamBWins: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Detector thresholds
+ */
+export interface AnomalyConfig {
+  /** How far back to look (ms) */
+  windowMs: number;
+  /** Separate meetings (matches or sessions) of the exact same players within the window before flagging */
+  closedGroupMatches: number;
+  /** Games by the same group within this long of a meeting's first game are part of it (ms) */
+  meetingSpanMs: number;
+  /** Most games one meeting absorbs; further games start a new meeting */
+  meetingMaxGames: number;
+  /** Expected score below which a win counts as an upset */
+  upsetExpectedScore: number;
+  /** Consecutive upsets and consecutive losses that make a swing */
+  swingLength: number;
+  /** Games needed before judging a player's score pattern */
+  scorePatternMinGames: number;
+  /** Share of lopsided games (loser at or below lopsidedLoserMax) that looks fabricated */
+  lopsidedShare: number;
+  lopsidedLoserMax: number;
+}
+
+export const DEFAULT_ANOMALY_CONFIG: AnomalyConfig = {
+  windowMs: 30 * DAY_MS,
+  closedGroupMatches: 5,
+  meetingSpanMs: 3 * 60 * 60 * 1000,
+  meetingMaxGames: 6,
+  upsetExpectedScore: 0.3,
+  swingLength: 3,
+  scorePatternMinGames: 8,
+  lopsidedShare: 0.75,
+  lopsidedLoserMax: 2,
+};
+
+function participantKey(match: AnalyzableMatch): string {
+  return [...match.teamA, ...match.teamB].map(p => p.id).sort().join('|');
+}
+
+function averageRating(team: { ratingBefore?: number }[]): number {
+  return team.reduce((sum, p) => sum + (p.ratingBefore ?? RATING.DEFAULT_ELO), 0) / Math.max(1, team.length);
+}
+
+// A player's view of one match: did they win, and how likely was it
+function playerResult(match: AnalyzableMatch, playerId: string): { won: boolean; expected: number } {
+  const onTeamA = match.teamA.some(p => p.id === playerId);
+  const own = onTeamA ? match.teamA : match.teamB;
+  const other = onTeamA ? match.teamB : match.teamA;
+  const expected = 1 / (1 + Math.pow(10, (averageRating(other) - averageRating(own)) / 400));
+  const teamAWon = match.teamAWins > match.teamBWins;
+  return { won: onTeamA ? teamAWon : !teamAWon, expected };
+}
+
+function detectClosedGroup(match: AnalyzableMatch, recent: AnalyzableMatch[], config: AnomalyConfig): AnomalyFlag | null {
+  const key = participantKey(match);
+  // Back-to-back games in one session (or one sitting) are a single meeting, not a pattern.
+  // A sitting is measured from its first game so games can't chain into one long meeting,
+  // and a meeting only absorbs so many games.
+  const games = [...recent, match].filter(m => participantKey(m) === key);
+  let meetings = 0;
+  let meetingStart: AnalyzableMatch | undefined;
+  let meetingGames = 0;
+  games.forEach(m => {
+    const sameSession = !!meetingStart?.sessionId && m.sessionId === meetingStart.sessionId;
+    const sameSitting = !!meetingStart && m.createdAt - meetingStart.createdAt <= config.meetingSpanMs;
+    if ((sameSession || sameSitting) && meetingGames < config.meetingMaxGames) {
+      meetingGames++;
+      return;
+    }
+    meetings++;
+    meetingStart = m;
+    meetingGames = 1;
+  });
+  if (meetings < config.closedGroupMatches) return null;
+
+  return {
+    type: 'closed_group',
+    playerIds: key.split('|'),
+    detail: `Same players have met ${meetings} times in the last ${Math.round(config.windowMs / DAY_MS)} days`,
+  };
+}
+
+// Looks for N upset wins next to N losses (either order) ending at this match
+function detectUpsetSwing(match: AnalyzableMatch, recent: AnalyzableMatch[], config: AnomalyConfig): AnomalyFlag | null {
+  const flagged: string[] = [];
+  const length = config.swingLength;
+
+  [...match.teamA, ...match.teamB].forEach(player => {
+    const results = [...recent, match]
+      .filter(m => [...m.teamA, ...m.teamB].some(p => p.id === player.id))
+      .map(m => playerResult(m, player.id));
+    if (results.length < length * 2) return;
+
+    const tail = results.slice(-length * 2);
+    const isUpset = (r: { won: boolean; expected: number }) => r.won && r.expected < config.upsetExpectedScore;
+    const isLoss = (r: { won: boolean }) => !r.won;
+    const first = tail.slice(0, length);
+    const second = tail.slice(length);
+
+    if ((first.every(isUpset) && second.every(isLoss)) || (first.every(isLoss) && second.every(isUpset))) {
+      flagged.push(player.id);
+    }
+  });
+
+  if (flagged.length === 0) return null;
+  return {
+    type: 'upset_swing',
+    playerIds: flagged,
+    detail: `${length} big upsets next to ${length} straight losses`,
+  };
+}
+
+function detectScorePattern(match: AnalyzableMatch, recent: AnalyzableMatch[], config: AnomalyConfig): AnomalyFlag | null {
+  const flagged: string[] = [];
+
+  [...match.teamA, ...match.teamB].forEach(player => {
+    const games = [...recent, match]
+      .filter(m => [...m.teamA, ...m.teamB].some(p => p.id === player.id))
+      .flatMap(m => m.games);
+    if (games.length < config.scorePatternMinGames) return;
+
+    const lopsided = games.filter(g => Math.min(g.teamAScore, g.teamBScore) <= config.lopsidedLoserMax).length;
+    const scorelines = new Set(games.map(g => `${Math.max(g.teamAScore, g.teamBScore)}-${Math.min(g.teamAScore, g.teamBScore)}`));
+
+    if (lopsided / games.length >= config.lopsidedShare || scorelines.size === 1) {
+      flagged.push(player.id);
+    }
+  });
+
+  if (flagged.length === 0) return null;
+  return {
+    type: 'score_pattern',
+    playerIds: flagged,
+    detail: 'Game scores are unusually lopsided or identical',
+  };
+}
+
+/**
+ * Check a new match against recent history for signs of manipulation
+ * History should hold earlier matches that weren't voided; only those inside
+ * the detection window are considered.
+ */
+export function detectMatchAnomalies(
+  match: AnalyzableMatch,
+  history: AnalyzableMatch[],
+  config: AnomalyConfig = DEFAULT_ANOMALY_CONFIG
+): AnomalyFlag[] {
+  const recent = history
+    .filter(m => m.id !== match.id && m.createdAt <= match.createdAt && match.createdAt - m.createdAt <= config.windowMs)
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+  return [
+    detectClosedGroup(match, recent, config),
+    detectUpsetSwing(match, recent, config),
+    detectScorePattern(match, recent, config),
+  ].filter((flag): flag is AnomalyFlag => flag !== null);
+}
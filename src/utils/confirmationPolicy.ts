@@ -0,0 +1,71 @@
+import { DEFAULT_CONFIRMATION_POLICY } from '../constants';
+import type { ConfirmationPolicy, Court, League } from '../types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * One participant's confirmation (MatchConfirmation from the match store fits)
+ */
+export interface PolicyConfirmation {
+  odinal: string;
+  state: 'approved' | 'declined' | 'pending';
+}
+
+/**
+ * Pick the policy for a match: the court's, then the league's, then the default
+ */
+export function resolveConfirmationPolicy(
+  court?: Pick<Court, 'confirmationPolicy'> | null,
+  league?: Pick<League, 'confirmationPolicy'> | null
+): ConfirmationPolicy {
+  return court?.confirmationPolicy ?? league?.confirmationPolicy ?? DEFAULT_CONFIRMATION_POLICY;
+}
+
+/**
+ * Confirmation window length in ms
+ */
+export function getConfirmationWindowMs(policy: ConfirmationPolicy): number {
+  return policy.windowHours * HOUR_MS;
+}
+
+/**
+ * Whether enough participants have confirmed for the match to count
+ * Opponents are the players not on the submitter's team.
+ */
+export function isConfirmationSatisfied(
+  policy: ConfirmationPolicy,
+  confirmations: PolicyConfirmation[],
+  opponentIds: string[]
+): boolean {
+  const approved = new Set(confirmations.filter(c => c.state === 'approved').map(c => c.odinal));
+  const opponentsApproved = opponentIds.filter(id => approved.has(id)).length;
+
+  switch (policy.rule) {
+    case 'any_opponent':
+      return opponentsApproved >= 1;
+    case 'all_opponents':
+      return opponentIds.length > 0 && opponentsApproved === opponentIds.length;
+    case 'all_participants':
+      return confirmations.every(c => c.state === 'approved');
+    case 'majority':
+      return approved.size * 2 > confirmations.length;
+  }
+}
+
+/**
+ * Short description of a policy for the UI
+ */
+export function describeConfirmationPolicy(policy: ConfirmationPolicy): string {
+  const rule = {
+    any_opponent: 'Any opponent confirms',
+    all_opponents: 'All opponents confirm',
+    all_participants: 'Everyone confirms',
+    majority: 'Majority confirms',
+  }[policy.rule];
+  const expiry = {
+    expire: 'expires',
+    auto_confirm: 'auto-confirms',
+    escalate: 'goes to review',
+  }[policy.onExpiry];
+  return `${rule} · ${expiry} after ${policy.windowHours}h`;
+}
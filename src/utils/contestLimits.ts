@@ -0,0 +1,80 @@
+import { CONTESTS } from '../constants';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A contest as the quota needs it (MatchDispute from the match store fits)
+ */
+export interface ContestRecord {
+  openedBy: string;
+  openedAt: number;
+  state: 'open' | 'corrected' | 'upheld' | 'voided';
+}
+
+/**
+ * How many contests a player has left in the current window
+ */
+export interface ContestQuota {
+  limit: number;
+  used: number;
+  remaining: number;
+  /** When the oldest contest in the window drops out (null if none are used) */
+  nextAvailableAt: number | null;
+}
+
+/**
+ * Contest limit settings (defaults come from CONTESTS)
+ */
+export interface ContestConfig {
+  limit: number;
+  windowDays: number;
+  trustStart: number;
+  frivolousPenalty: number;
+  frivolousGrace: number;
+}
+
+export const DEFAULT_CONTEST_CONFIG: ContestConfig = {
+  limit: CONTESTS.LIMIT,
+  windowDays: CONTESTS.WINDOW_DAYS,
+  trustStart: CONTESTS.TRUST_START,
+  frivolousPenalty: CONTESTS.FRIVOLOUS_PENALTY,
+  frivolousGrace: CONTESTS.FRIVOLOUS_GRACE,
+};
+
+/**
+ * Count a player's contests over the rolling window ending now
+ */
+export function getContestQuota(
+  contests: ContestRecord[],
+  userId: string,
+  now: number,
+  config: ContestConfig = DEFAULT_CONTEST_CONFIG
+): ContestQuota {
+  const windowMs = config.windowDays * DAY_MS;
+  const inWindow = contests
+    .filter(c => c.openedBy === userId && now - c.openedAt < windowMs)
+    .map(c => c.openedAt)
+    .sort((a, b) => a - b);
+
+  return {
+    limit: config.limit,
+    used: inWindow.length,
+    remaining: Math.max(0, config.limit - inWindow.length),
+    nextAvailableAt: inWindow.length > 0 ? inWindow[0] + windowMs : null,
+  };
+}
+
+/**
+ * Trust score from a player's contest history (0-trustStart)
+ * Each contest that ended with the original result upheld is frivolous;
+ * after the first few, every one costs frivolousPenalty points.
+ */
+export function getTrustScore(
+  contests: ContestRecord[],
+  userId: string,
+  config: ContestConfig = DEFAULT_CONTEST_CONFIG
+): number {
+  const frivolous = contests.filter(c => c.openedBy === userId && c.state === 'upheld').length;
+  const penalized = Math.max(0, frivolous - config.frivolousGrace);
+  return Math.max(0, config.trustStart - penalized * config.frivolousPenalty);
+}
@@ -0,0 +1,135 @@
+import { RATING } from '../constants';
+import type { RatingModel } from '../types';
+import { calculateMatchEloChange, flipGameScores, GameScoreLine } from './rating';
+
+/**
+ * A player going into a rated match
+ */
+export interface RatedPlayer {
+  id: string;
+  rating: number;
+  /** Player's own K-factor (e.g. provisional); defaults to the match K-factor */
+  kFactor?: number;
+}
+
+/**
+ * Individual rating outcome for one player in a match
+ */
+export interface PlayerRatingChange {
+  id: string;
+  ratingBefore: number;
+  ratingAfter: number;
+  delta: number;
+  /** Player's own expected score against the opponents (0-1) */
+  expectedContribution: number;
+}
+
+/**
+ * Minimal participant shape the attribution can write ratings onto
+ */
+interface RateableParticipant {
+  id: string;
+  ratingBefore?: number;
+  ratingAfter?: number;
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : RATING.DEFAULT_ELO;
+}
+
+/**
+ * Expected score for one player against the opposing team
+ * Based on the player's own rating vs the opponents' average
+ */
+export function calculateExpectedContribution(playerElo: number, opponentElos: number[]): number {
+  return 1 / (1 + Math.pow(10, (average(opponentElos) - playerElo) / 400));
+}
+
+// Split a team's total rating change across its players.
+// Wins are credited in proportion to expected contribution; losses are
+// charged in proportion to the contribution a player was NOT expected to
+// make. A strong player carrying a weak partner gains more on a win and
+// loses less on a loss than the partner does. A player with their own
+// K-factor has their share scaled by it relative to the match K-factor.
+function splitTeamChange(
+  team: RatedPlayer[],
+  opponents: RatedPlayer[],
+  teamChange: number,
+  kFactor: number
+): PlayerRatingChange[] {
+  const opponentElos = opponents.map(p => p.rating);
+  const contributions = team.map(p => calculateExpectedContribution(p.rating, opponentElos));
+  const weights = teamChange >= 0 ? contributions : contributions.map(c => 1 - c);
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+
+  return team.map((player, i) => {
+    const share = totalWeight > 0 ? weights[i] / totalWeight : 1 / team.length;
+    const kScale = (player.kFactor ?? kFactor) / kFactor;
+    const delta = Math.round(teamChange * share * kScale);
+    return {
+      id: player.id,
+      ratingBefore: player.rating,
+      ratingAfter: player.rating + delta,
+      delta,
+      expectedContribution: contributions[i],
+    };
+  });
+}
+
+/**
+ * Calculate individual rating changes for both teams of a match
+ * The team-level change comes from the team averages; each team's total
+ * (change x team size) is then split between partners. Works for singles too.
+ * Games are from team A's perspective.
+ */
+export function calculateTeamRatingChanges(
+  teamA: RatedPlayer[],
+  teamB: RatedPlayer[],
+  games: GameScoreLine[],
+  model: RatingModel = RATING.DEFAULT_MODEL,
+  kFactor: number = RATING.K_FACTOR
+): { teamA: PlayerRatingChange[]; teamB: PlayerRatingChange[] } {
+  const teamAAvg = average(teamA.map(p => p.rating));
+  const teamBAvg = average(teamB.map(p => p.rating));
+
+  const teamAChange = calculateMatchEloChange(teamAAvg, teamBAvg, games, model, kFactor);
+  const teamBChange = calculateMatchEloChange(teamBAvg, teamAAvg, flipGameScores(games), model, kFactor);
+
+  return {
+    teamA: splitTeamChange(teamA, teamB, teamAChange * teamA.length, kFactor),
+    teamB: splitTeamChange(teamB, teamA, teamBChange * teamB.length, kFactor),
+  };
+}
+
+/**
+ * Write per-player ratingBefore / ratingAfter onto match participants
+ * Participants without a ratingBefore start from the default rating.
+ * kFactors overrides the K-factor for individual players by ID.
+ */
+export function rateMatchParticipants<T extends RateableParticipant>(
+  teamA: T[],
+  teamB: T[],
+  games: GameScoreLine[],
+  model: RatingModel = RATING.DEFAULT_MODEL,
+  kFactor: number = RATING.K_FACTOR,
+  kFactors?: Record<string, number>
+): { teamA: T[]; teamB: T[] } {
+  const toRated = (p: T): RatedPlayer => ({
+    id: p.id,
+    rating: p.ratingBefore ?? RATING.DEFAULT_ELO,
+    kFactor: kFactors?.[p.id],
+  });
+  const changes = calculateTeamRatingChanges(teamA.map(toRated), teamB.map(toRated), games, model, kFactor);
+
+  const apply = (participants: T[], results: PlayerRatingChange[]): T[] =>
+    participants.map((p, i) => ({
+      ...p,
+      ratingBefore: results[i].ratingBefore,
+      ratingAfter: results[i].ratingAfter,
+    }));
+
+  return {
+    teamA: apply(teamA, changes.teamA),
+    teamB: apply(teamB, changes.teamB),
+  };
+}
@@ -0,0 +1,86 @@
+import { DUPLICATES } from '../constants';
+import type { GameScoreLine } from './rating';
+
+/**
+ * A submission as the detector needs it (Match from the match store fits)
+ */
+export interface SubmittedMatch {
+  id: string;
+  courtId: string;
+  createdAt: number;
+  // Player who logged it
+  submittedBy?: string;
+  teamA: { id: string }[];
+  teamB: { id: string }[];
+  games: GameScoreLine[];
+}
+
+function idKey(team: { id: string }[]): string {
+  return team.map(p => p.id).sort().join('|');
+}
+
+/**
+ * Whether b lists the teams the other way round from a
+ * (each phone logs its own team as team A)
+ */
+export function isFlippedSubmission(a: SubmittedMatch, b: SubmittedMatch): boolean {
+  return idKey(a.teamA) === idKey(b.teamB) && idKey(a.teamB) === idKey(b.teamA);
+}
+
+// Whether b was logged by someone on the other team from a's submitter
+function isSubmittedByOpponent(a: SubmittedMatch, b: SubmittedMatch): boolean {
+  if (!a.submittedBy || !b.submittedBy || a.submittedBy === b.submittedBy) return false;
+  const submitterOnTeamA = a.teamA.some(p => p.id === a.submittedBy);
+  const opponents = submitterOnTeamA ? a.teamB : a.teamA;
+  return opponents.some(p => p.id === b.submittedBy);
+}
+
+/**
+ * Same court, same two teams (either way round), submitted within the window and
+ * logged by a player on the other team. The same person logging the same four
+ * players twice is a second game, not a duplicate.
+ */
+export function isLikelyDuplicate(
+  a: SubmittedMatch,
+  b: SubmittedMatch,
+  windowMs: number = DUPLICATES.WINDOW_MINUTES * 60 * 1000
+): boolean {
+  if (a.id === b.id || a.courtId !== b.courtId) return false;
+  if (Math.abs(a.createdAt - b.createdAt) > windowMs) return false;
+
+  const sameOrder = idKey(a.teamA) === idKey(b.teamA) && idKey(a.teamB) === idKey(b.teamB);
+  if (!sameOrder && !isFlippedSubmission(a, b)) return false;
+  return isSubmittedByOpponent(a, b);
+}
+
+/**
+ * b's games in a's team order
+ */
+export function alignGames(a: SubmittedMatch, b: SubmittedMatch): GameScoreLine[] {
+  if (!isFlippedSubmission(a, b)) return b.games;
+  return b.games.map(g => ({ teamAScore: g.teamBScore, teamBScore: g.teamAScore }));
+}
+
+/**
+ * Whether two duplicate submissions report the same scores
+ */
+export function hasSameScores(a: SubmittedMatch, b: SubmittedMatch): boolean {
+  const aligned = alignGames(a, b);
+  return (
+    a.games.length === aligned.length &&
+    a.games.every((g, i) => g.teamAScore === aligned[i].teamAScore && g.teamBScore === aligned[i].teamBScore)
+  );
+}
+
+/**
+ * Most recent earlier submission that looks like the same match
+ */
+export function findDuplicateSubmission<T extends SubmittedMatch>(
+  match: SubmittedMatch,
+  candidates: T[],
+  windowMs?: number
+): T | undefined {
+  return candidates
+    .filter(c => isLikelyDuplicate(match, c, windowMs))
+    .sort((x, y) => y.createdAt - x.createdAt)[0];
+}
@@ -0,0 +1,143 @@
+import { DEFAULT_GAME_FORMAT, SCORING } from '../constants';
+import type { Court, GameFormat, League } from '../types';
+import type { GameScoreLine } from './rating';
+
+export type GameSide = 'teamA' | 'teamB';
+
+/**
+ * Pick the game format for a match: the court's, then the league's, then the default
+ */
+export function resolveGameFormat(
+  court?: Pick<Court, 'gameFormat'> | null,
+  league?: Pick<League, 'gameFormat'> | null
+): GameFormat {
+  return court?.gameFormat ?? league?.gameFormat ?? DEFAULT_GAME_FORMAT;
+}
+
+// Whether the leading side has scored enough to end the game on points
+function hasReachedWinningScore(format: GameFormat, leader: number, trailer: number): boolean {
+  if (format.cap !== undefined && leader >= format.cap) return true;
+  return leader >= format.target && leader - trailer >= format.winBy;
+}
+
+/**
+ * Why a finished game's score is invalid under the format, or null if it's fine.
+ * Catches unfinished games and scores that can't happen (11-10 or 14-11 under win-by-2).
+ */
+export function validateGame(format: GameFormat, game: GameScoreLine): string | null {
+  const { teamAScore, teamBScore } = game;
+  if (!Number.isInteger(teamAScore) || !Number.isInteger(teamBScore) || teamAScore < 0 || teamBScore < 0) {
+    return 'Scores must be whole numbers of 0 or more';
+  }
+  if (teamAScore === teamBScore) return "A game can't end in a tie";
+
+  const winner = Math.max(teamAScore, teamBScore);
+  const loser = Math.min(teamAScore, teamBScore);
+
+  // The game ends on the winning point, so the score one point earlier can't already be a win
+  if (hasReachedWinningScore(format, winner - 1, loser)) {
+    return `${winner}–${loser} isn't possible when playing ${describePointRule(format)}`;
+  }
+  // Timed games can also end on the clock with any lead
+  if (format.scoring !== 'timed' && !hasReachedWinningScore(format, winner, loser)) {
+    return `Game isn't finished: play ${describePointRule(format)}`;
+  }
+  return null;
+}
+
+/**
+ * Winner of a finished game, or null if the score isn't a valid final score
+ */
+export function getGameWinner(format: GameFormat, game: GameScoreLine): GameSide | null {
+  if (validateGame(format, game) !== null) return null;
+  return game.teamAScore > game.teamBScore ? 'teamA' : 'teamB';
+}
+
+/**
+ * Whether a game's score is a valid final score under the format
+ */
+export function isGameComplete(format: GameFormat, game: GameScoreLine): boolean {
+  return validateGame(format, game) === null;
+}
+
+/**
+ * Highest score one side can reach given the other side's score
+ * (the score that would win the game from there)
+ */
+export function getMaxGameScore(format: GameFormat, opponentScore: number): number {
+  const limit = format.cap ?? SCORING.MAX_POINTS;
+  let score = opponentScore + 1;
+  while (score < limit && !hasReachedWinningScore(format, score, opponentScore)) {
+    score++;
+  }
+  return Math.min(score, limit);
+}
+
+/**
+ * Most games a match can have
+ */
+export function getMaxGames(format: GameFormat): number {
+  return format.bestOf ?? SCORING.OPEN_PLAY_MAX_GAMES;
+}
+
+/**
+ * Games a side has to win to take a best-of-N match (null for open play)
+ */
+export function getGamesToWin(format: GameFormat): number | null {
+  return format.bestOf ? Math.floor(format.bestOf / 2) + 1 : null;
+}
+
+/**
+ * Why a match's games are invalid under the format, or null if they make a finished match
+ */
+export function validateMatchGames(format: GameFormat, games: GameScoreLine[]): string | null {
+  if (games.length === 0) return 'Enter at least one game';
+  if (games.length > getMaxGames(format)) {
+    return format.bestOf
+      ? `A best-of-${format.bestOf} match has at most ${format.bestOf} games`
+      : `A match can have at most ${getMaxGames(format)} games`;
+  }
+
+  const gamesToWin = getGamesToWin(format);
+  const wins: Record<GameSide, number> = { teamA: 0, teamB: 0 };
+
+  for (let i = 0; i < games.length; i++) {
+    if (gamesToWin !== null && Math.max(wins.teamA, wins.teamB) >= gamesToWin) {
+      return `Game ${i + 1} comes after the match was already won`;
+    }
+    const error = validateGame(format, games[i]);
+    if (error) return `Game ${i + 1}: ${error}`;
+    wins[games[i].teamAScore > games[i].teamBScore ? 'teamA' : 'teamB'] += 1;
+  }
+
+  if (gamesToWin !== null && Math.max(wins.teamA, wins.teamB) < gamesToWin) {
+    return `Match isn't finished: first to ${gamesToWin} games wins`;
+  }
+  return null;
+}
+
+/**
+ * Whether the games make a finished, valid match under the format
+ */
+export function isMatchComplete(format: GameFormat, games: GameScoreLine[]): boolean {
+  return validateMatchGames(format, games) === null;
+}
+
+// "to 11, win by 2" plus the cap if there is one
+function describePointRule(format: GameFormat): string {
+  const cap = format.cap !== undefined ? `, cap ${format.cap}` : '';
+  return `to ${format.target}, win by ${format.winBy}${cap}`;
+}
+
+/**
+ * Short description of a format for the UI
+ */
+export function describeGameFormat(format: GameFormat): string {
+  const scoring = {
+    side_out: 'Side-out',
+    rally: 'Rally',
+    timed: format.timeLimitMinutes ? `Timed ${format.timeLimitMinutes} min` : 'Timed',
+  }[format.scoring];
+  const games = format.bestOf ? ` · best of ${format.bestOf}` : '';
+  return `${scoring} ${describePointRule(format)}${games}`;
+}
@@ -0,0 +1,309 @@
+import { GLICKO, RATING } from '../constants';
+import type { GameMode, ModeRating } from '../types';
+import { eloToRating } from './rating';
+
+// Glicko-2 works on an internal scale; ratings are stored on the same scale as
+// ELO so the existing display conversion applies unchanged.
+const GLICKO_SCALE = 173.7178;
+
+/**
+ * A single Glicko-2 rating for one player in one game mode
+ */
+export interface GlickoRating {
+  rating: number;
+  deviation: number;
+  volatility: number;
+  /** Index of the last rating period this rating was updated in */
+  lastPeriod?: number;
+}
+
+/**
+ * Glicko-2 ratings for one player, tracked separately per game mode
+ */
+export type GlickoPlayerRatings = Record<GameMode, GlickoRating>;
+
+/**
+ * All tracked Glicko-2 ratings, keyed by player ID
+ */
+export type GlickoLedger = Record<string, GlickoPlayerRatings>;
+
+/**
+ * One game outcome against an opponent within a rating period
+ */
+export interface GlickoGameResult {
+  opponent: GlickoRating;
+  /** 1 = win, 0.5 = draw, 0 = loss */
+  score: number;
+}
+
+/**
+ * A match result fed into a rating period (1v1 or team vs team)
+ */
+export interface GlickoMatchResult {
+  teamA: string[];
+  teamB: string[];
+  /** Team A's score: 1 = win, 0.5 = draw, 0 = loss */
+  teamAScore: number;
+  playedAt: number;
+}
+
+/**
+ * Create a fresh rating for a player with no history
+ */
+export function createGlickoRating(rating: number = RATING.DEFAULT_ELO): GlickoRating {
+  return {
+    rating,
+    deviation: GLICKO.DEFAULT_DEVIATION,
+    volatility: GLICKO.DEFAULT_VOLATILITY,
+  };
+}
+
+/**
+ * Create fresh singles and doubles ratings for a player
+ */
+export function createGlickoPlayerRatings(rating: number = RATING.DEFAULT_ELO): GlickoPlayerRatings {
+  return {
+    singles: createGlickoRating(rating),
+    doubles: createGlickoRating(rating),
+  };
+}
+
+/**
+ * Glicko-2 view of a stored mode rating
+ * Ratings that haven't been through Glicko-2 yet start at the default deviation
+ * and volatility; the last period comes from when the player last played.
+ */
+export function toGlickoRating(
+  rating: Pick<ModeRating, 'elo' | 'deviation' | 'volatility' | 'lastPlayedAt'>
+): GlickoRating {
+  return {
+    rating: rating.elo,
+    deviation: rating.deviation ?? GLICKO.DEFAULT_DEVIATION,
+    volatility: rating.volatility ?? GLICKO.DEFAULT_VOLATILITY,
+    lastPeriod: rating.lastPlayedAt !== undefined ? getRatingPeriod(rating.lastPlayedAt) : undefined,
+  };
+}
+
+/**
+ * Get the rating period index a timestamp falls in
+ */
+export function getRatingPeriod(timestamp: number): number {
+  return Math.floor(timestamp / GLICKO.RATING_PERIOD_MS);
+}
+
+/**
+ * Group match results by rating period, oldest period first
+ */
+export function groupByRatingPeriod<T extends { playedAt: number }>(results: T[]): [number, T[]][] {
+  const periods = new Map<number, T[]>();
+  results.forEach(result => {
+    const period = getRatingPeriod(result.playedAt);
+    const bucket = periods.get(period) ?? [];
+    bucket.push(result);
+    periods.set(period, bucket);
+  });
+  return [...periods.entries()].sort((a, b) => a[0] - b[0]);
+}
+
+/**
+ * Widen rating deviation for rating periods spent without playing
+ * Deviation never exceeds the deviation of a brand-new player
+ */
+export function applyInactivity(rating: GlickoRating, idlePeriods: number): GlickoRating {
+  if (idlePeriods <= 0) return rating;
+
+  const phi = rating.deviation / GLICKO_SCALE;
+  const widened = Math.sqrt(phi * phi + idlePeriods * rating.volatility * rating.volatility);
+  return {
+    ...rating,
+    deviation: Math.min(GLICKO.DEFAULT_DEVIATION, widened * GLICKO_SCALE),
+  };
+}
+
+/**
+ * Get a rating as of a given rating period, widening deviation for idle periods
+ */
+export function getGlickoRatingAt(rating: GlickoRating, period: number): GlickoRating {
+  if (rating.lastPeriod === undefined) return rating;
+  return applyInactivity(rating, period - rating.lastPeriod);
+}
+
+function g(phi: number): number {
+  return 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+}
+
+function expectedScore(mu: number, muOpponent: number, phiOpponent: number): number {
+  return 1 / (1 + Math.exp(-g(phiOpponent) * (mu - muOpponent)));
+}
+
+// Iterative volatility update (Illinois algorithm, step 5 of the Glicko-2 paper)
+function computeVolatility(phi: number, sigma: number, v: number, delta: number): number {
+  const tau = GLICKO.TAU;
+  const a = Math.log(sigma * sigma);
+  const f = (x: number) => {
+    const ex = Math.exp(x);
+    const denom = phi * phi + v + ex;
+    return (ex * (delta * delta - phi * phi - v - ex)) / (2 * denom * denom) - (x - a) / (tau * tau);
+  };
+
+  let A = a;
+  let B: number;
+  if (delta * delta > phi * phi + v) {
+    B = Math.log(delta * delta - phi * phi - v);
+  } else {
+    let k = 1;
+    while (f(a - k * tau) < 0) k++;
+    B = a - k * tau;
+  }
+
+  let fA = f(A);
+  let fB = f(B);
+  while (Math.abs(B - A) > GLICKO.EPSILON) {
+    const C = A + ((A - B) * fA) / (fB - fA);
+    const fC = f(C);
+    if (fC * fB <= 0) {
+      A = B;
+      fA = fB;
+    } else {
+      fA = fA / 2;
+    }
+    B = C;
+    fB = fC;
+  }
+
+  return Math.exp(A / 2);
+}
+
+/**
+ * Update a rating with every game played in one rating period
+ * With no games, only the deviation grows
+ */
+export function updateGlickoRating(rating: GlickoRating, results: GlickoGameResult[]): GlickoRating {
+  const mu = (rating.rating - RATING.DEFAULT_ELO) / GLICKO_SCALE;
+  const phi = rating.deviation / GLICKO_SCALE;
+
+  if (results.length === 0) {
+    return applyInactivity(rating, 1);
+  }
+
+  let vInverse = 0;
+  let deltaSum = 0;
+  results.forEach(({ opponent, score }) => {
+    const muOpponent = (opponent.rating - RATING.DEFAULT_ELO) / GLICKO_SCALE;
+    const phiOpponent = opponent.deviation / GLICKO_SCALE;
+    const gPhi = g(phiOpponent);
+    const expected = expectedScore(mu, muOpponent, phiOpponent);
+    vInverse += gPhi * gPhi * expected * (1 - expected);
+    deltaSum += gPhi * (score - expected);
+  });
+
+  const v = 1 / vInverse;
+  const delta = v * deltaSum;
+  const volatility = computeVolatility(phi, rating.volatility, v, delta);
+
+  const phiStar = Math.sqrt(phi * phi + volatility * volatility);
+  const newPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v);
+  const newMu = mu + newPhi * newPhi * deltaSum;
+
+  return {
+    ...rating,
+    rating: newMu * GLICKO_SCALE + RATING.DEFAULT_ELO,
+    deviation: Math.min(GLICKO.DEFAULT_DEVIATION, newPhi * GLICKO_SCALE),
+    volatility,
+  };
+}
+
+/**
+ * Combine a team into a single composite opponent
+ * Uses the mean rating and the root-mean-square deviation
+ */
+export function combineTeamRatings(ratings: GlickoRating[]): GlickoRating {
+  const count = ratings.length || 1;
+  const rating = ratings.reduce((sum, r) => sum + r.rating, 0) / count;
+  const deviation = Math.sqrt(ratings.reduce((sum, r) => sum + r.deviation * r.deviation, 0) / count);
+  const volatility = ratings.reduce((sum, r) => sum + r.volatility, 0) / count;
+  return { rating, deviation, volatility };
+}
+
+/**
+ * Process all matches in one rating period for a game mode
+ * Every participant is rated against the opposing team's composite rating,
+ * using ratings as they stood at the start of the period.
+ * Returns a new ledger; the input is not mutated.
+ */
+export function processRatingPeriod(
+  ledger: GlickoLedger,
+  mode: GameMode,
+  period: number,
+  matches: GlickoMatchResult[]
+): GlickoLedger {
+  const ratingFor = (playerId: string): GlickoRating =>
+    getGlickoRatingAt(ledger[playerId]?.[mode] ?? createGlickoRating(), period - 1);
+
+  const resultsByPlayer = new Map<string, GlickoGameResult[]>();
+  const addResult = (playerId: string, result: GlickoGameResult) => {
+    const results = resultsByPlayer.get(playerId) ?? [];
+    results.push(result);
+    resultsByPlayer.set(playerId, results);
+  };
+
+  matches.forEach(match => {
+    const teamAComposite = combineTeamRatings(match.teamA.map(ratingFor));
+    const teamBComposite = combineTeamRatings(match.teamB.map(ratingFor));
+    match.teamA.forEach(id => addResult(id, { opponent: teamBComposite, score: match.teamAScore }));
+    match.teamB.forEach(id => addResult(id, { opponent: teamAComposite, score: 1 - match.teamAScore }));
+  });
+
+  const next: GlickoLedger = { ...ledger };
+  resultsByPlayer.forEach((results, playerId) => {
+    const updated = updateGlickoRating(ratingFor(playerId), results);
+    next[playerId] = {
+      ...(ledger[playerId] ?? createGlickoPlayerRatings()),
+      [mode]: { ...updated, lastPeriod: period },
+    };
+  });
+
+  return next;
+}
+
+/**
+ * Process a full list of match results for a game mode, period by period
+ */
+export function processMatchHistory(
+  ledger: GlickoLedger,
+  mode: GameMode,
+  matches: GlickoMatchResult[]
+): GlickoLedger {
+  return groupByRatingPeriod(matches).reduce(
+    (current, [period, periodMatches]) => processRatingPeriod(current, mode, period, periodMatches),
+    ledger
+  );
+}
+
+/**
+ * Rate one confirmed match from stored mode ratings, keyed by player ID
+ * The match is run as its own rating period so ratings move as soon as it's
+ * confirmed; deviation still widens for the periods a player sat out.
+ * Returns the new rating of every player in the match.
+ */
+export function rateGlickoMatch(
+  ratings: Record<string, ModeRating>,
+  mode: GameMode,
+  match: GlickoMatchResult
+): Record<string, GlickoRating> {
+  const ledger: GlickoLedger = {};
+  Object.entries(ratings).forEach(([playerId, rating]) => {
+    ledger[playerId] = { ...createGlickoPlayerRatings(), [mode]: toGlickoRating(rating) };
+  });
+
+  const next = processRatingPeriod(ledger, mode, getRatingPeriod(match.playedAt), [match]);
+  return Object.fromEntries([...match.teamA, ...match.teamB].map(id => [id, next[id][mode]]));
+}
+
+/**
+ * Convert a Glicko-2 rating to display rating (same scale as eloToRating)
+ */
+export function glickoToRating(rating: GlickoRating): string {
+  return eloToRating(rating.rating);
+}
+
@@ -0,0 +1,114 @@
+import { INACTIVITY } from '../constants';
+import type { InactivityPolicy, ModeRating } from '../types';
+import { getKFactor } from './rating';
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Inactivity policy settings (defaults come from INACTIVITY)
+ */
+export interface InactivityConfig {
+  policy: InactivityPolicy;
+  graceWeeks: number;
+  decayRate: number;
+  decayFloor: number;
+  returningMatches: number;
+  returningKFactor: number;
+  widenedKFactor: number;
+}
+
+export const DEFAULT_INACTIVITY_CONFIG: InactivityConfig = {
+  policy: INACTIVITY.POLICY,
+  graceWeeks: INACTIVITY.GRACE_WEEKS,
+  decayRate: INACTIVITY.DECAY_RATE,
+  decayFloor: INACTIVITY.DECAY_FLOOR,
+  returningMatches: INACTIVITY.RETURNING_MATCHES,
+  returningKFactor: INACTIVITY.RETURNING_K_FACTOR,
+  widenedKFactor: INACTIVITY.WIDENED_K_FACTOR,
+};
+
+/**
+ * Weeks past the grace period since the rating's last confirmed match
+ */
+export function getInactiveWeeks(
+  rating: Pick<ModeRating, 'lastPlayedAt'>,
+  now: number,
+  config: InactivityConfig = DEFAULT_INACTIVITY_CONFIG
+): number {
+  if (rating.lastPlayedAt === undefined) return 0;
+  const idleWeeks = Math.floor((now - rating.lastPlayedAt) / WEEK_MS);
+  return Math.max(0, idleWeeks - config.graceWeeks);
+}
+
+/**
+ * Apply the inactivity policy to a rating as of a point in time
+ * Only weeks not already applied are decayed, so calling this repeatedly is safe.
+ * An inactive rating is flagged as returning for its next few matches.
+ */
+export function applyInactivityPolicy(
+  rating: ModeRating,
+  now: number,
+  config: InactivityConfig = DEFAULT_INACTIVITY_CONFIG
+): ModeRating {
+  const inactiveWeeks = getInactiveWeeks(rating, now, config);
+  const alreadyApplied = rating.inactiveWeeksApplied ?? 0;
+  if (inactiveWeeks <= alreadyApplied) return rating;
+
+  let elo = rating.elo;
+  if (config.policy === 'decay' && elo > config.decayFloor) {
+    const remaining = Math.pow(1 - config.decayRate, inactiveWeeks - alreadyApplied);
+    elo = Math.round(config.decayFloor + (elo - config.decayFloor) * remaining);
+  }
+
+  return {
+    ...rating,
+    elo,
+    inactiveWeeksApplied: inactiveWeeks,
+    returningMatchesLeft: config.returningMatches,
+  };
+}
+
+/**
+ * Whether a player is back from a break and still in their faster-moving matches
+ */
+export function isReturning(rating?: Pick<ModeRating, 'returningMatchesLeft'>): boolean {
+  return (rating?.returningMatchesLeft ?? 0) > 0;
+}
+
+/**
+ * K-factor for a player's next match, accounting for provisional and returning status
+ */
+export function getPlayerKFactor(
+  rating: Pick<ModeRating, 'gamesPlayed' | 'returningMatchesLeft'>,
+  config: InactivityConfig = DEFAULT_INACTIVITY_CONFIG
+): number {
+  const base = getKFactor(rating.gamesPlayed);
+  if (!isReturning(rating)) return base;
+  const returningK = config.policy === 'widen_uncertainty' ? config.widenedKFactor : config.returningKFactor;
+  return Math.max(base, returningK);
+}
+
+/**
+ * Record one confirmed match on a mode rating
+ * Resets the inactivity clock and counts down the returning flag.
+ * Glicko-2 results also carry the new deviation and volatility.
+ */
+export function recordModeResult(
+  rating: ModeRating,
+  eloAfter: number,
+  won: boolean,
+  playedAt: number,
+  uncertainty?: Pick<ModeRating, 'deviation' | 'volatility'>
+): ModeRating {
+  const returningLeft = Math.max(0, (rating.returningMatchesLeft ?? 0) - 1);
+  return {
+    elo: eloAfter,
+    gamesPlayed: rating.gamesPlayed + 1,
+    wins: rating.wins + (won ? 1 : 0),
+    lastPlayedAt: playedAt,
+    inactiveWeeksApplied: 0,
+    returningMatchesLeft: returningLeft > 0 ? returningLeft : undefined,
+    deviation: uncertainty?.deviation ?? rating.deviation,
+    volatility: uncertainty?.volatility ?? rating.volatility,
+  };
+}
@@ -1 +1,15 @@
 export * from './rating';
+export * from './glicko2';
+export * from './doublesRating';
+export * from './inactivity';
+export * from './ratingReplay';
+export * from './matchPreview';
+export * from './anomalyDetection';
+export * from './contestLimits';
+export * from './confirmationPolicy';
+export * from './duplicateDetection';
+export * from './gameFormat';
+export * from './liveScoring';
+export * from './livePrompts';
+export * from './sessionSummary';
+export * from './rotation';
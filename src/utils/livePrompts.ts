@@ -0,0 +1,113 @@
+import type { GameFormat } from '../types';
+import { GameSide, isGameComplete } from './gameFormat';
+import type { LiveScoreState, TimeoutEvent } from './liveScoring';
+
+export type LivePromptType =
+  | 'switch_sides'
+  | 'switch_sides_at'
+  | 'game_point'
+  | 'timeouts'
+  | 'game_clock'
+  | 'time_up';
+
+/**
+ * A reminder to show while a game is being played
+ */
+export interface LivePrompt {
+  type: LivePromptType;
+  message: string;
+  // Alerts need acting on now; info is background
+  tone: 'alert' | 'info';
+}
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Timeouts each team still has in a game
+ */
+export function getTimeoutsRemaining(
+  format: GameFormat,
+  timeouts: TimeoutEvent[],
+  gameIndex: number
+): Record<GameSide, number> {
+  const allowed = format.timeoutsPerGame ?? 0;
+  const used = (team: GameSide) => timeouts.filter(t => t.team === team && t.gameIndex === gameIndex).length;
+  return {
+    teamA: Math.max(0, allowed - used('teamA')),
+    teamB: Math.max(0, allowed - used('teamB')),
+  };
+}
+
+function formatClock(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Reminders for the game in progress, most urgent first.
+ * Which ones appear depends on the format's live-play settings.
+ */
+export function getLivePrompts(
+  format: GameFormat,
+  state: LiveScoreState,
+  timeouts: TimeoutEvent[],
+  labels: Record<GameSide, string>,
+  now: number = Date.now()
+): LivePrompt[] {
+  if (state.isMatchOver) return [];
+
+  const alerts: LivePrompt[] = [];
+  const info: LivePrompt[] = [];
+  const game = state.current;
+  const leadingScore = Math.max(game.teamAScore, game.teamBScore);
+
+  // Change ends the moment the first team reaches the switch score
+  if (format.switchSidesAt !== undefined) {
+    const lastRally = state.rallies[state.rallies.length - 1];
+    const scorerScore = lastRally?.winner === 'teamA' ? game.teamAScore : game.teamBScore;
+    const otherScore = lastRally?.winner === 'teamA' ? game.teamBScore : game.teamAScore;
+    const justReached = lastRally?.gameIndex === game.gameIndex &&
+      lastRally.pointScored &&
+      scorerScore === format.switchSidesAt &&
+      otherScore < format.switchSidesAt;
+    if (justReached) {
+      alerts.push({ type: 'switch_sides', message: 'Switch sides now', tone: 'alert' });
+    } else if (leadingScore < format.switchSidesAt) {
+      info.push({ type: 'switch_sides_at', message: `Switch sides at ${format.switchSidesAt}`, tone: 'info' });
+    }
+  }
+
+  // Only the serving team can score, so only they can be on game point
+  const servingScore = game.servingTeam === 'teamA'
+    ? { teamAScore: game.teamAScore + 1, teamBScore: game.teamBScore }
+    : { teamAScore: game.teamAScore, teamBScore: game.teamBScore + 1 };
+  if (format.scoring !== 'timed' && isGameComplete(format, servingScore)) {
+    alerts.push({ type: 'game_point', message: `Game point · ${labels[game.servingTeam]}`, tone: 'alert' });
+  }
+
+  // Timed games count down; others can show elapsed time
+  const elapsed = now - game.startedAt;
+  if (format.timeLimitMinutes) {
+    const remaining = format.timeLimitMinutes * MINUTE_MS - elapsed;
+    if (remaining <= 0) {
+      alerts.push({ type: 'time_up', message: "Time's up · leader wins the game", tone: 'alert' });
+    } else {
+      info.push({ type: 'game_clock', message: `${formatClock(remaining)} left`, tone: 'info' });
+    }
+  } else if (format.showGameClock) {
+    info.push({ type: 'game_clock', message: `Game ${game.gameIndex + 1} · ${formatClock(elapsed)}`, tone: 'info' });
+  }
+
+  if (format.timeoutsPerGame) {
+    const remaining = getTimeoutsRemaining(format, timeouts, game.gameIndex);
+    info.push({
+      type: 'timeouts',
+      message: `Timeouts left · ${labels.teamA} ${remaining.teamA} · ${labels.teamB} ${remaining.teamB}`,
+      tone: 'info',
+    });
+  }
+
+  return [...alerts, ...info];
+}
@@ -0,0 +1,157 @@
+import type { GameFormat } from '../types';
+import type { GameScoreLine } from './rating';
+import { GameSide, isGameComplete, isMatchComplete } from './gameFormat';
+
+export type ServerNumber = 1 | 2;
+export type CourtSide = 'right' | 'left';
+
+/**
+ * One rally as it's entered: who won it
+ */
+export interface RallyEvent {
+  winner: GameSide;
+  at: number; // ms timestamp
+}
+
+/**
+ * A timeout called by one team
+ */
+export interface TimeoutEvent {
+  team: GameSide;
+  gameIndex: number;
+  at: number; // ms timestamp
+}
+
+/**
+ * Where serve is in a side-out doubles game
+ */
+export interface ServeState {
+  servingTeam: GameSide;
+  serverNumber: ServerNumber;
+  // Side of the court the server serves from
+  serverSide: CourtSide;
+}
+
+/**
+ * A rally with the game situation it was played in (for stats)
+ */
+export interface ScoredRally extends RallyEvent, ServeState {
+  gameIndex: number;
+  // False for side-outs and second-server handovers
+  pointScored: boolean;
+  scoreAfter: GameScoreLine;
+}
+
+/**
+ * The game being played
+ */
+export interface LiveGameState extends ServeState, GameScoreLine {
+  gameIndex: number;
+  startedAt: number; // ms timestamp of the first serve (end of the previous game)
+  // Team that served first this game (the other team serves first next game)
+  firstServingTeam: GameSide;
+}
+
+/**
+ * Everything derived from the rallies so far
+ */
+export interface LiveScoreState {
+  current: LiveGameState;
+  completedGames: GameScoreLine[];
+  rallies: ScoredRally[];
+  // Best-of matches end once a team has clinched; open play can always start another game
+  isMatchOver: boolean;
+}
+
+const otherSide = (side: GameSide): GameSide => (side === 'teamA' ? 'teamB' : 'teamA');
+
+// Games open "0-0-2": the first serving team only gets one server before the first side-out
+function startGame(gameIndex: number, firstServingTeam: GameSide, startedAt: number): LiveGameState {
+  return {
+    gameIndex,
+    startedAt,
+    firstServingTeam,
+    teamAScore: 0,
+    teamBScore: 0,
+    servingTeam: firstServingTeam,
+    serverNumber: 2,
+    serverSide: 'right',
+  };
+}
+
+// Apply one rally under side-out rules. Only the serving team scores; the server switches
+// sides after each point. A lost rally passes serve to the partner (who serves from where
+// they stand), and after the second server loses it's a side-out to the right-hand player.
+function playRally(game: LiveGameState, winner: GameSide): { game: LiveGameState; pointScored: boolean } {
+  if (winner === game.servingTeam) {
+    const scoreKey = winner === 'teamA' ? 'teamAScore' : 'teamBScore';
+    return {
+      game: {
+        ...game,
+        [scoreKey]: game[scoreKey] + 1,
+        serverSide: game.serverSide === 'right' ? 'left' : 'right',
+      },
+      pointScored: true,
+    };
+  }
+
+  if (game.serverNumber === 1) {
+    return {
+      game: { ...game, serverNumber: 2, serverSide: game.serverSide === 'right' ? 'left' : 'right' },
+      pointScored: false,
+    };
+  }
+
+  return {
+    game: { ...game, servingTeam: winner, serverNumber: 1, serverSide: 'right' },
+    pointScored: false,
+  };
+}
+
+/**
+ * Rebuild the live score from the rallies entered so far.
+ * Undo is just replaying without the last rally.
+ */
+export function replayRallies(
+  format: GameFormat,
+  firstServingTeam: GameSide,
+  events: RallyEvent[],
+  startedAt: number
+): LiveScoreState {
+  let current = startGame(0, firstServingTeam, startedAt);
+  const completedGames: GameScoreLine[] = [];
+  const rallies: ScoredRally[] = [];
+  let isMatchOver = false;
+
+  for (const event of events) {
+    // Rallies entered after the match was decided don't count
+    if (isMatchOver) break;
+
+    const before: ServeState = {
+      servingTeam: current.servingTeam,
+      serverNumber: current.serverNumber,
+      serverSide: current.serverSide,
+    };
+    const { game, pointScored } = playRally(current, event.winner);
+    const scoreAfter = { teamAScore: game.teamAScore, teamBScore: game.teamBScore };
+    rallies.push({ ...event, ...before, gameIndex: current.gameIndex, pointScored, scoreAfter });
+    current = game;
+
+    if (pointScored && isGameComplete(format, scoreAfter)) {
+      completedGames.push(scoreAfter);
+      isMatchOver = !!format.bestOf && isMatchComplete(format, completedGames);
+      current = startGame(current.gameIndex + 1, otherSide(current.firstServingTeam), event.at);
+    }
+  }
+
+  return { current, completedGames, rallies, isMatchOver };
+}
+
+/**
+ * The score as called before a serve: serving score, receiving score, server number ("4-2-1")
+ */
+export function getScoreCall(game: LiveGameState): string {
+  const serving = game.servingTeam === 'teamA' ? game.teamAScore : game.teamBScore;
+  const receiving = game.servingTeam === 'teamA' ? game.teamBScore : game.teamAScore;
+  return `${serving}-${receiving}-${game.serverNumber}`;
+}
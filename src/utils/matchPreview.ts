@@ -0,0 +1,97 @@
+import { RATING } from '../constants';
+import type { GameMode, ModeRating, PlayerRatings, RatingModel } from '../types';
+import { calculateTeamRatingChanges, RatedPlayer } from './doublesRating';
+import { getPlayerKFactor } from './inactivity';
+import { GameScoreLine } from './rating';
+
+/**
+ * A player's rating in the match's mode, with what decides their K-factor
+ */
+export type PreviewPlayer = { id: string } & Pick<ModeRating, 'elo' | 'gamesPlayed' | 'returningMatchesLeft'>;
+
+/**
+ * What one player stands to gain or lose in a match
+ */
+export interface PlayerStakes {
+  id: string;
+  ifWin: number;
+  ifLoss: number;
+}
+
+/**
+ * Pre-match outlook for team A vs team B
+ */
+export interface MatchPreview {
+  /** Whole percentages; the two always add up to 100 */
+  teamAWinProbability: number;
+  teamBWinProbability: number;
+  /** Projected points per game in team A's favour (negative = team B favoured) */
+  projectedSpread: number;
+  teamA: PlayerStakes[];
+  teamB: PlayerStakes[];
+}
+
+/**
+ * Preview input for a player: their stored rating when there is one, else the
+ * rating on the player record, else their legacy elo with no games played
+ */
+export function toPreviewPlayer(
+  player: { id: string; elo: number; ratings?: PlayerRatings },
+  mode: GameMode,
+  stored?: ModeRating
+): PreviewPlayer {
+  const rating = stored ?? player.ratings?.[mode];
+  return rating
+    ? { id: player.id, elo: rating.elo, gamesPlayed: rating.gamesPlayed, returningMatchesLeft: rating.returningMatchesLeft }
+    : { id: player.id, elo: player.elo, gamesPlayed: 0 };
+}
+
+function average(players: RatedPlayer[]): number {
+  return players.length > 0
+    ? players.reduce((sum, p) => sum + p.rating, 0) / players.length
+    : RATING.DEFAULT_ELO;
+}
+
+// A typical single-game scoreline for the given winner. The favourite wins by
+// the projected spread; an upset is assumed to be close (win by 2).
+function projectedGame(teamAWins: boolean, spread: number, gameTarget: number): GameScoreLine[] {
+  const favouriteWins = teamAWins === spread > 0;
+  const margin = favouriteWins ? Math.max(2, Math.abs(spread)) : 2;
+  const loserScore = Math.max(0, gameTarget - margin);
+  return teamAWins
+    ? [{ teamAScore: gameTarget, teamBScore: loserScore }]
+    : [{ teamAScore: loserScore, teamBScore: gameTarget }];
+}
+
+/**
+ * Preview a match before it starts: each side's win probability, the
+ * projected point spread per game, and every player's rating change for a
+ * win vs a loss under the given rating model. Each player moves by their own
+ * K-factor (provisional, returning), as they would when the match is rated.
+ */
+export function previewMatch(
+  playersA: PreviewPlayer[],
+  playersB: PreviewPlayer[],
+  model: RatingModel = RATING.DEFAULT_MODEL,
+  gameTarget: number = 11
+): MatchPreview {
+  const toRated = (p: PreviewPlayer): RatedPlayer => ({ id: p.id, rating: p.elo, kFactor: getPlayerKFactor(p) });
+  const teamA = playersA.map(toRated);
+  const teamB = playersB.map(toRated);
+
+  const expected = 1 / (1 + Math.pow(10, (average(teamB) - average(teamA)) / 400));
+  const teamAWinProbability = Math.round(expected * 100);
+  // Share of a game's points the expected score implies, scaled to the target
+  const projectedSpread = Math.round((2 * expected - 1) * gameTarget);
+
+  const ifAWins = calculateTeamRatingChanges(teamA, teamB, projectedGame(true, projectedSpread, gameTarget), model);
+  const ifBWins = calculateTeamRatingChanges(teamA, teamB, projectedGame(false, projectedSpread, gameTarget), model);
+
+  return {
+    teamAWinProbability,
+    teamBWinProbability: 100 - teamAWinProbability,
+    projectedSpread,
+    teamA: teamA.map((p, i) => ({ id: p.id, ifWin: ifAWins.teamA[i].delta, ifLoss: ifBWins.teamA[i].delta })),
+    teamB: teamB.map((p, i) => ({ id: p.id, ifWin: ifBWins.teamB[i].delta, ifLoss: ifAWins.teamB[i].delta })),
+  };
+}
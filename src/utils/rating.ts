@@ -1,17 +1,54 @@
+import { RATING, RATING_SCALES } from '../constants';
+import type { GameMode, League, ModeRating, PlayerRatings, RatingModel, RatingScale } from '../types';
+
 /**
- * Convert ELO rating to display rating (2.0 - 6.0 scale)
+ * Get a display scale by version (defaults to the scale in use)
+ */
+export function getRatingScale(version: number = RATING.SCALE_VERSION): RatingScale {
+  const scale = RATING_SCALES.find(s => s.version === version);
+  if (!scale) throw new Error(`Unknown rating scale version: ${version}`);
+  return scale;
+}
+
+// Unclamped linear mapping shared by the conversions
+function toDisplay(elo: number, scale: RatingScale): number {
+  return scale.anchorRating + (elo - scale.anchorElo) / scale.eloPerPoint;
+}
+
+function toElo(rating: number, scale: RatingScale): number {
+  return scale.anchorElo + (rating - scale.anchorRating) * scale.eloPerPoint;
+}
+
+/**
+ * Convert ELO to an unrounded display rating
+ * Only legacy scales with a min/max clamp; the current scale covers the full range
+ */
+export function eloToDisplayRating(elo: number, scale: RatingScale = getRatingScale()): number {
+  const rating = toDisplay(elo, scale);
+  return Math.max(scale.minRating ?? -Infinity, Math.min(scale.maxRating ?? Infinity, rating));
+}
+
+/**
+ * Convert ELO rating to display rating (one decimal)
  * Uses a proprietary PaddleRating scale
  */
-export function eloToRating(elo: number): string {
-  const rating = 2.0 + ((elo - 1000) / 500) * 2.0;
-  return Math.max(2.0, Math.min(6.0, rating)).toFixed(1);
+export function eloToRating(elo: number, scale: RatingScale = getRatingScale()): string {
+  return eloToDisplayRating(elo, scale).toFixed(1);
 }
 
 /**
  * Convert display rating back to ELO
+ * Exact inverse of eloToDisplayRating on an unclamped scale
+ */
+export function ratingToElo(rating: number, scale: RatingScale = getRatingScale()): number {
+  return Math.round(toElo(rating, scale));
+}
+
+/**
+ * Convert an ELO change to the matching display rating change
  */
-export function ratingToElo(rating: number): number {
-  return Math.round(1000 + ((rating - 2.0) / 2.0) * 500);
+export function eloChangeToRatingChange(eloChange: number, scale: RatingScale = getRatingScale()): number {
+  return eloChange / scale.eloPerPoint;
 }
 
 /**
@@ -23,16 +60,11 @@ export function calculateWinProbability(playerElo: number, opponentElo: number):
 }
 
 /**
- * Get rating tier based on display rating
+ * Get rating tier based on display rating, using the scale's tier boundaries
  */
-export function getRatingTier(rating: number): string {
-  if (rating < 2.5) return 'Beginner';
-  if (rating < 3.0) return 'Novice';
-  if (rating < 3.5) return 'Intermediate';
-  if (rating < 4.0) return 'Advanced';
-  if (rating < 4.5) return 'Expert';
-  if (rating < 5.0) return 'Pro';
-  return 'Elite';
+export function getRatingTier(rating: number, scale: RatingScale = getRatingScale()): string {
+  const tier = [...scale.tiers].reverse().find(t => rating >= t.minRating);
+  return tier?.label ?? scale.tiers[0].label;
 }
 
 /**
@@ -50,7 +82,7 @@ export function calculateEloChange(
   playerElo: number,
   opponentElo: number,
   didWin: boolean,
-  kFactor: number = 32
+  kFactor: number = RATING.K_FACTOR
 ): number {
   const expectedScore = 1 / (1 + Math.pow(10, (opponentElo - playerElo) / 400));
   const actualScore = didWin ? 1 : 0;
@@ -68,3 +100,142 @@ export function getNewElo(
   const change = calculateEloChange(playerElo, opponentElo, didWin);
   return playerElo + change;
 }
+
+/**
+ * Per-game score line, from the perspective of the player being rated
+ */
+export interface GameScoreLine {
+  teamAScore: number;
+  teamBScore: number;
+}
+
+/**
+ * Weight a match result by how decisive it was
+ * Averages the game margin and the point margin, so a close three-game
+ * grind weighs ~0.7 and a lopsided sweep weighs ~1.45
+ */
+export function calculateMarginWeight(games: GameScoreLine[]): number {
+  if (games.length === 0) return 1;
+
+  const teamAWins = games.filter(g => g.teamAScore > g.teamBScore).length;
+  const teamBWins = games.filter(g => g.teamBScore > g.teamAScore).length;
+  const teamAPoints = games.reduce((sum, g) => sum + g.teamAScore, 0);
+  const teamBPoints = games.reduce((sum, g) => sum + g.teamBScore, 0);
+  const totalPoints = teamAPoints + teamBPoints;
+
+  const gameMargin = Math.abs(teamAWins - teamBWins) / games.length;
+  const pointMargin = totalPoints > 0 ? Math.abs(teamAPoints - teamBPoints) / totalPoints : 0;
+
+  return 0.5 + (gameMargin + pointMargin) / 2;
+}
+
+/**
+ * Calculate ELO change weighted by margin of victory
+ * Games are from the player's perspective (teamAScore = player's team)
+ */
+export function calculateMarginEloChange(
+  playerElo: number,
+  opponentElo: number,
+  games: GameScoreLine[],
+  kFactor: number = RATING.K_FACTOR
+): number {
+  const teamAWins = games.filter(g => g.teamAScore > g.teamBScore).length;
+  const teamBWins = games.filter(g => g.teamBScore > g.teamAScore).length;
+  const actualScore = teamAWins > teamBWins ? 1 : teamAWins < teamBWins ? 0 : 0.5;
+  const expectedScore = 1 / (1 + Math.pow(10, (opponentElo - playerElo) / 400));
+  return Math.round(kFactor * calculateMarginWeight(games) * (actualScore - expectedScore));
+}
+
+/**
+ * Calculate ELO change for a match using the given rating model
+ * Games are from the player's perspective (teamAScore = player's team)
+ */
+export function calculateMatchEloChange(
+  playerElo: number,
+  opponentElo: number,
+  games: GameScoreLine[],
+  model: RatingModel = RATING.DEFAULT_MODEL,
+  kFactor: number = RATING.K_FACTOR
+): number {
+  if (model === 'margin_of_victory') {
+    return calculateMarginEloChange(playerElo, opponentElo, games, kFactor);
+  }
+  const teamAWins = games.filter(g => g.teamAScore > g.teamBScore).length;
+  const teamBWins = games.filter(g => g.teamBScore > g.teamAScore).length;
+  return calculateEloChange(playerElo, opponentElo, teamAWins > teamBWins, kFactor);
+}
+
+/**
+ * Calculate the ELO change under every rating model, for side-by-side comparison
+ */
+export function compareRatingModels(
+  playerElo: number,
+  opponentElo: number,
+  games: GameScoreLine[],
+  kFactor: number = RATING.K_FACTOR
+): Record<RatingModel, number> {
+  return {
+    win_loss: calculateMatchEloChange(playerElo, opponentElo, games, 'win_loss', kFactor),
+    margin_of_victory: calculateMatchEloChange(playerElo, opponentElo, games, 'margin_of_victory', kFactor),
+  };
+}
+
+/**
+ * Flip per-game scores to the other team's perspective
+ */
+export function flipGameScores(games: GameScoreLine[]): GameScoreLine[] {
+  return games.map(g => ({ teamAScore: g.teamBScore, teamBScore: g.teamAScore }));
+}
+
+/**
+ * Get the rating model for a league, falling back to the default model
+ */
+export function getLeagueRatingModel(league?: Pick<League, 'ratingModel'> | null): RatingModel {
+  return league?.ratingModel ?? RATING.DEFAULT_MODEL;
+}
+
+/**
+ * Create an unplayed rating for one mode
+ */
+export function createModeRating(elo: number = RATING.DEFAULT_ELO): ModeRating {
+  return { elo, gamesPlayed: 0, wins: 0 };
+}
+
+/**
+ * Create unplayed singles and doubles ratings, both starting at the same ELO
+ */
+export function createPlayerRatings(elo: number = RATING.DEFAULT_ELO): PlayerRatings {
+  return { singles: createModeRating(elo), doubles: createModeRating(elo) };
+}
+
+/**
+ * Get a player's ELO for a mode, falling back to their legacy single rating
+ */
+export function getModeElo(player: { elo: number; ratings?: PlayerRatings }, mode: GameMode): number {
+  return player.ratings?.[mode].elo ?? player.elo;
+}
+
+/**
+ * Win rate as a whole percentage (0 when no games played)
+ */
+export function getWinRate(rating: Pick<ModeRating, 'gamesPlayed' | 'wins'>): number {
+  return rating.gamesPlayed > 0 ? Math.round((rating.wins / rating.gamesPlayed) * 100) : 0;
+}
+
+/**
+ * Whether a rating is still in its provisional (placement) period
+ * (no rating yet means no games played)
+ */
+export function isProvisional(rating?: Pick<ModeRating, 'gamesPlayed'>): boolean {
+  return (rating?.gamesPlayed ?? 0) < RATING.PROVISIONAL_MATCHES;
+}
+
+/**
+ * K-factor for a player's next match
+ * Starts at the provisional K and shrinks linearly to the base K as matches accumulate
+ */
+export function getKFactor(gamesPlayed: number): number {
+  if (gamesPlayed >= RATING.PROVISIONAL_MATCHES) return RATING.K_FACTOR;
+  const remaining = 1 - gamesPlayed / RATING.PROVISIONAL_MATCHES;
+  return RATING.K_FACTOR + (RATING.PROVISIONAL_K_FACTOR - RATING.K_FACTOR) * remaining;
+}
@@ -0,0 +1,202 @@
+import { RATING } from '../constants';
+import type { GameMode, League, ModeRating, PlayerRatings, RatingSystem } from '../types';
+import { createPlayerRatings, getLeagueRatingModel, GameScoreLine } from './rating';
+import { rateMatchParticipants } from './doublesRating';
+import { rateGlickoMatch } from './glicko2';
+import { applyInactivityPolicy, getPlayerKFactor, recordModeResult } from './inactivity';
+
+/**
+ * A confirmed match as the replay needs it (Match from the match store fits)
+ */
+export interface ReplayableMatch {
+  id: string;
+  createdAt: number;
+  /** When the match was rated on confirmation; matches rated before this was kept use createdAt */
+  ratedAt?: number;
+  mode: GameMode;
+  leagueId?: string;
+  teamA: { id: string }[];
+  teamB: { id: string }[];
+  games: GameScoreLine[];
+  teamAWins: number;
+  teamBWins: number;
+}
+
+/**
+ * One player's rating movement in a replayed match
+ */
+export interface ReplayedRating {
+  id: string;
+  ratingBefore: number;
+  ratingAfter: number;
+  won: boolean;
+}
+
+/**
+ * Rating movements for one replayed match
+ */
+export interface ReplayedMatch {
+  matchId: string;
+  mode: GameMode;
+  teamA: ReplayedRating[];
+  teamB: ReplayedRating[];
+}
+
+/**
+ * Final ratings after replaying a match history
+ */
+export interface RatingReplayResult {
+  ratings: Record<string, PlayerRatings>;
+  /** Replayed matches in the order they were applied */
+  matches: ReplayedMatch[];
+}
+
+/**
+ * Old vs new rating for one player in one mode
+ */
+export interface RatingDiffEntry {
+  playerId: string;
+  mode: GameMode;
+  /** null when the player had no stored rating */
+  oldElo: number | null;
+  newElo: number;
+  delta: number;
+  oldGamesPlayed: number;
+  newGamesPlayed: number;
+}
+
+// A participant with the rating they went into and came out of a match with
+type RatedParticipant = { id: string; ratingBefore?: number; ratingAfter?: number };
+
+/**
+ * Time a match was rated at, the same timestamp the live engine used on confirmation
+ */
+export function getRatedAt(match: Pick<ReplayableMatch, 'createdAt' | 'ratedAt'>): number {
+  return match.ratedAt ?? match.createdAt;
+}
+
+/**
+ * Sort matches in the order they were rated, breaking ties by ID so the order never depends on input order
+ */
+export function sortMatchesForReplay<T extends ReplayableMatch>(matches: T[]): T[] {
+  return [...matches].sort((a, b) => getRatedAt(a) - getRatedAt(b) || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+}
+
+/**
+ * Replay matches from a clean slate and regenerate every player's ratings
+ * Every player starts at the default rating with no games played, and each
+ * match goes through the same rating engine (including inactivity) used on confirmation.
+ * Only pass matches that should count (i.e. confirmed, not voided).
+ */
+export function replayMatchHistory(
+  matches: ReplayableMatch[],
+  leagues: League[] = [],
+  system: RatingSystem = RATING.SYSTEM
+): RatingReplayResult {
+  const ratings: Record<string, PlayerRatings> = {};
+  const replayed: ReplayedMatch[] = [];
+
+  sortMatchesForReplay(matches).forEach(match => {
+    const ratedAt = getRatedAt(match);
+    const participants = [...match.teamA, ...match.teamB];
+    participants.forEach(p => {
+      const current = ratings[p.id] ?? createPlayerRatings(RATING.DEFAULT_ELO);
+      // Inactivity is judged at the time the match was rated, as it was on confirmation
+      ratings[p.id] = { ...current, [match.mode]: applyInactivityPolicy(current[match.mode], ratedAt) };
+    });
+
+    const teamAWon = match.teamAWins > match.teamBWins;
+    const toRateable = (p: { id: string }) => ({ id: p.id, ratingBefore: ratings[p.id][match.mode].elo });
+    let rated: { teamA: RatedParticipant[]; teamB: RatedParticipant[] };
+    let uncertainty: Record<string, Pick<ModeRating, 'deviation' | 'volatility'>> = {};
+
+    if (system === 'glicko2') {
+      const modeRatings = Object.fromEntries(participants.map(p => [p.id, ratings[p.id][match.mode]]));
+      const updated = rateGlickoMatch(modeRatings, match.mode, {
+        teamA: match.teamA.map(p => p.id),
+        teamB: match.teamB.map(p => p.id),
+        teamAScore: teamAWon ? 1 : 0,
+        playedAt: ratedAt,
+      });
+      const withResult = (p: { id: string }) => ({ ...toRateable(p), ratingAfter: Math.round(updated[p.id].rating) });
+      rated = { teamA: match.teamA.map(withResult), teamB: match.teamB.map(withResult) };
+      uncertainty = updated;
+    } else {
+      const kFactors: Record<string, number> = {};
+      participants.forEach(p => {
+        kFactors[p.id] = getPlayerKFactor(ratings[p.id][match.mode]);
+      });
+      rated = rateMatchParticipants(
+        match.teamA.map(toRateable),
+        match.teamB.map(toRateable),
+        match.games,
+        getLeagueRatingModel(leagues.find(l => l.id === match.leagueId)),
+        RATING.K_FACTOR,
+        kFactors
+      );
+    }
+
+    const record = (p: RatedParticipant, won: boolean): ReplayedRating => {
+      ratings[p.id] = {
+        ...ratings[p.id],
+        [match.mode]: recordModeResult(ratings[p.id][match.mode], p.ratingAfter!, won, ratedAt, uncertainty[p.id]),
+      };
+      return { id: p.id, ratingBefore: p.ratingBefore!, ratingAfter: p.ratingAfter!, won };
+    };
+
+    replayed.push({
+      matchId: match.id,
+      mode: match.mode,
+      teamA: rated.teamA.map(p => record(p, teamAWon)),
+      teamB: rated.teamB.map(p => record(p, !teamAWon)),
+    });
+  });
+
+  return { ratings, matches: replayed };
+}
+
+/**
+ * Compare stored ratings with replayed ones, one entry per player per mode
+ * Players only present in the old ratings are left out; sorted by player ID then mode.
+ */
+export function diffRatings(
+  oldRatings: Record<string, PlayerRatings | undefined>,
+  newRatings: Record<string, PlayerRatings>
+): RatingDiffEntry[] {
+  const modes: GameMode[] = ['singles', 'doubles'];
+
+  return Object.keys(newRatings)
+    .sort()
+    .flatMap(playerId =>
+      modes.map(mode => {
+        const before = oldRatings[playerId]?.[mode];
+        const after = newRatings[playerId][mode];
+        return {
+          playerId,
+          mode,
+          oldElo: before?.elo ?? null,
+          newElo: after.elo,
+          delta: after.elo - (before?.elo ?? RATING.DEFAULT_ELO),
+          oldGamesPlayed: before?.gamesPlayed ?? 0,
+          newGamesPlayed: after.gamesPlayed,
+        };
+      })
+    )
+    .filter(entry => entry.oldElo !== null || entry.newGamesPlayed > 0);
+}
+
+/**
+ * Format a diff as a plain-text report, one line per changed rating
+ */
+export function formatRatingDiffReport(diff: RatingDiffEntry[]): string {
+  const changed = diff.filter(d => d.delta !== 0 || d.oldGamesPlayed !== d.newGamesPlayed);
+  if (changed.length === 0) return 'No rating changes';
+
+  return changed
+    .map(d => {
+      const oldElo = d.oldElo === null ? 'unrated' : String(d.oldElo);
+      const sign = d.delta > 0 ? '+' : '';
+      return `${d.playerId} ${d.mode}: ${oldElo} -> ${d.newElo} (${sign}${d.delta}), games ${d.oldGamesPlayed} -> ${d.newGamesPlayed}`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,130 @@
+import type { SessionGameRecord } from '../types';
+
+type PlayedGame = Pick<SessionGameRecord, 'teamAPlayerIds' | 'teamBPlayerIds'>;
+
+/**
+ * Who plays the next game of a rotating doubles session and who sits out
+ */
+export interface RotationLineup {
+  teamA: [string, string];
+  teamB: [string, string];
+  sittingOut: string[];
+}
+
+/**
+ * How often each player has played, and how often each pair has partnered and opposed
+ */
+export interface RotationCounts {
+  gamesPlayed: Map<string, number>;
+  // Index of the last game each player was on court for (-1 if never)
+  lastPlayed: Map<string, number>;
+  partnered: Map<string, number>;
+  opposed: Map<string, number>;
+}
+
+const pairKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+/**
+ * Tally games played, partnerships and match-ups from a session's games
+ */
+export function getRotationCounts(playerIds: string[], games: PlayedGame[]): RotationCounts {
+  const counts: RotationCounts = {
+    gamesPlayed: new Map(playerIds.map(id => [id, 0])),
+    lastPlayed: new Map(playerIds.map(id => [id, -1])),
+    partnered: new Map(),
+    opposed: new Map(),
+  };
+  const bump = (map: Map<string, number>, key: string) => map.set(key, (map.get(key) ?? 0) + 1);
+
+  games.forEach((game, index) => {
+    for (const id of [...game.teamAPlayerIds, ...game.teamBPlayerIds]) {
+      bump(counts.gamesPlayed, id);
+      counts.lastPlayed.set(id, index);
+    }
+    bump(counts.partnered, pairKey(...game.teamAPlayerIds));
+    bump(counts.partnered, pairKey(...game.teamBPlayerIds));
+    for (const a of game.teamAPlayerIds) {
+      for (const b of game.teamBPlayerIds) {
+        bump(counts.opposed, pairKey(a, b));
+      }
+    }
+  });
+
+  return counts;
+}
+
+function combinations<T>(items: T[], size: number): T[][] {
+  if (size === 0) return [[]];
+  if (items.length < size) return [];
+  const [first, ...rest] = items;
+  return [
+    ...combinations(rest, size - 1).map(combo => [first, ...combo]),
+    ...combinations(rest, size),
+  ];
+}
+
+// The three ways to split four players into two teams
+function splitTeams([a, b, c, d]: string[]): [[string, string], [string, string]][] {
+  return [
+    [[a, b], [c, d]],
+    [[a, c], [b, d]],
+    [[a, d], [b, c]],
+  ];
+}
+
+// Cost of benching someone who also sat out the last game, weighed against repeat
+// pairings. With 7-8 players some back-to-back sit-outs are needed to mix everyone.
+const REPEAT_SIT_OUT_COST = 2;
+
+/**
+ * Pick the next game's lineup.
+ * Whoever has played fewest games gets on court, so sit-outs go round evenly.
+ * Among equally-rested players, the choice and the team split favour pairs who've
+ * partnered, and faced each other, least, and avoid sitting anyone out twice running.
+ * With no games played, the first four players in order play, first two vs last two.
+ */
+export function scheduleNextGame(playerIds: string[], games: PlayedGame[]): RotationLineup {
+  const counts = getRotationCounts(playerIds, games);
+  const played = (id: string) => counts.gamesPlayed.get(id) ?? 0;
+  const ranked = [...playerIds].sort((x, y) => played(x) - played(y));
+  const lastGame = games.length - 1;
+  const satOutLast = (id: string) => lastGame >= 0 && counts.lastPlayed.get(id) !== lastGame;
+
+  // Players who've played less than the fourth spot must play; ties for the
+  // remaining spots are settled by whichever choice costs least
+  const cutoff = played(ranked[3]);
+  const mustPlay = ranked.filter(id => played(id) < cutoff);
+  const tied = ranked.filter(id => played(id) === cutoff);
+
+  let best: { lineup: RotationLineup; cost: number } | null = null;
+  for (const extra of combinations(tied, 4 - mustPlay.length)) {
+    const onCourt = [...mustPlay, ...extra].sort((x, y) => playerIds.indexOf(x) - playerIds.indexOf(y));
+    for (const [teamA, teamB] of splitTeams(onCourt)) {
+      // A repeat partnership counts double: each game has two partnerships but four match-ups
+      const partnerCost = (counts.partnered.get(pairKey(...teamA)) ?? 0) + (counts.partnered.get(pairKey(...teamB)) ?? 0);
+      let opposeCost = 0;
+      for (const a of teamA) {
+        for (const b of teamB) {
+          opposeCost += counts.opposed.get(pairKey(a, b)) ?? 0;
+        }
+      }
+      const sittingOut = playerIds.filter(id => !onCourt.includes(id));
+      const repeatSitOuts = sittingOut.filter(satOutLast).length;
+      const cost = partnerCost * 2 + opposeCost + repeatSitOuts * REPEAT_SIT_OUT_COST;
+      if (!best || cost < best.cost) {
+        best = { lineup: { teamA, teamB, sittingOut }, cost };
+      }
+    }
+  }
+
+  return best!.lineup;
+}
+
+/**
+ * Players sitting out now who come on for the game after the current one
+ */
+export function getOnDeck(playerIds: string[], games: PlayedGame[], current: RotationLineup): string[] {
+  if (current.sittingOut.length === 0) return [];
+  const next = scheduleNextGame(playerIds, [...games, { teamAPlayerIds: current.teamA, teamBPlayerIds: current.teamB }]);
+  return current.sittingOut.filter(id => !next.sittingOut.includes(id));
+}
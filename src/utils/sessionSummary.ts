@@ -0,0 +1,42 @@
+import type { DoublesSession, SessionSummary } from '../types';
+
+/**
+ * Wrap up a doubles session: games played, each player's record and the best pairing
+ */
+export function summarizeSession(
+  session: DoublesSession,
+  endedAt: number,
+  closedReason: SessionSummary['closedReason']
+): SessionSummary {
+  const players = session.players
+    .map(player => {
+      let wins = 0;
+      let losses = 0;
+      for (const game of session.games) {
+        const onTeamA = game.teamAPlayerIds.includes(player.id);
+        const onTeamB = game.teamBPlayerIds.includes(player.id);
+        if (!onTeamA && !onTeamB) continue;
+        const teamAWon = game.teamAScore > game.teamBScore;
+        if (onTeamA === teamAWon) wins++;
+        else losses++;
+      }
+      return { playerId: player.id, name: player.name, wins, losses };
+    })
+    .sort((a, b) => b.wins - a.wins || a.losses - b.losses);
+
+  // Most wins, then fewest losses, among pairings that actually played
+  const bestCombo = session.comboRecords
+    .filter(r => r.wins + r.losses > 0)
+    .sort((a, b) => b.wins - a.wins || a.losses - b.losses)[0];
+
+  return {
+    sessionId: session.id,
+    courtName: session.courtName,
+    startedAt: session.startedAt,
+    endedAt,
+    closedReason,
+    gamesPlayed: session.games.length,
+    players,
+    bestCombo,
+  };
+}